@@ -1,10 +1,5 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
-export interface KaniResponse {
-	failedProperty: string;
-	failedMessages: string;
-}
-
 export namespace KaniConstants {
 	export const KaniExecutableName: string = `kani`;
 	export const CargoKaniExecutableName: string = `cargo kani`;
@@ -14,8 +9,16 @@ export namespace KaniArguments {
 	export const packageFlag: string = `-p`;
 	export const unwindFlag: string = `--unwind`;
 	export const harnessFlag: string = `--harness`;
+	export const jobsFlag: string = `-j`;
 	export const testsFlag: string = `--tests`;
 	export const outputFormatFlag: string = `--output-format`;
 	export const unstableFormatFlag: string = `--enable-unstable`;
 	export const stubbingFlag: string = `--enable-stubbing`;
+	export const unstableFeatureFlag: string = `-Z`;
+	export const unstableOptions: string = `unstable-options`;
+	export const exportJsonFlag: string = `--export-json`;
+	export const concretePlaybackFeature: string = `concrete-playback`;
+	export const concretePlaybackInPlaceFlag: string = `--concrete-playback=inplace`;
+	export const coverageFlag: string = `--coverage`;
+	export const lineCoverageFeature: string = `line-coverage`;
 }
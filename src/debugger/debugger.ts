@@ -1,27 +1,39 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
 import { execFileSync } from 'child_process';
+import * as fs from 'fs';
 import path from 'path';
 
 import * as vscode from 'vscode';
 
 import GlobalConfig from '../globalConfig';
+import { ensureFeatureSupported } from '../model/kaniCapabilities';
+import { getHarnessConfigArgs } from '../model/kaniConfig';
+import { HarnessResult, failureStatuses } from '../model/kaniResult';
+import { SourceCodeParser } from '../ui/sourceCodeParser';
 import {
 	CommandArgs,
+	getCrateRoot,
 	getPackageName,
-	getRootDir,
-	getRootDirURI,
+	getPackageNameFromFilePath,
+	getTargetArgsFromFilePath,
+	getWorkspaceFolder,
 	isLibraryProject,
 	splitCommand,
 } from '../utils';
 
 // Extracts the path for the cargo artifact for the user's crate which we shall plug into the debugger
 // by connecting to the vscode debugger controller
-async function getBinaryPath(): Promise<string | undefined> {
+async function getBinaryPath(
+	functionName: string,
+	fileUri?: vscode.Uri,
+): Promise<string | undefined> {
 	try {
-		// Run 'cargo' command to get the binary path
-		const cargoPath = await getPackageName(getRootDir());
-		const directory = path.resolve(getRootDir());
+		// Run 'cargo' command in the crate of the test to get the binary path
+		const directory = path.resolve(getCrateRoot(fileUri));
+		const cargoPath = fileUri
+			? await getPackageNameFromFilePath(fileUri)
+			: await getPackageName(directory);
 		const options = {
 			shell: false,
 			cwd: directory,
@@ -37,8 +49,15 @@ async function getBinaryPath(): Promise<string | undefined> {
 		// Execute the concrete-playback to generate the binary, and get the binary from the artifacts
 		const commandSplit: CommandArgs = splitCommand(playbackCommand);
 
-		const isLib: boolean = await isLibraryProject(getRootDir());
-		if (isLib) {
+		if (fileUri) {
+			// The configuration of the harness applies to the concrete tests generated from it
+			const harnessName = await SourceCodeParser.findPlaybackHarness(
+				fs.readFileSync(fileUri.fsPath, 'utf-8'),
+				functionName,
+			);
+			commandSplit.args.push(...(await getTargetArgsFromFilePath(fileUri)));
+			commandSplit.args.push(...(await getHarnessConfigArgs(fileUri, harnessName, 'playback')));
+		} else if (await isLibraryProject(directory)) {
 			commandSplit.args.push('--lib');
 		}
 
@@ -83,21 +102,34 @@ async function getBinaryPath(): Promise<string | undefined> {
 	}
 }
 
-// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-export async function connectToDebugger(functionName: string) {
+// Name of the debug session of a concrete test
+function getSessionName(functionName: string): string {
+	return `test ${functionName}`;
+}
+
+// Debug a concrete test, and return true if the debug session was started
+export async function connectToDebugger(
+	functionName: string,
+	fileUri?: vscode.Uri,
+): Promise<boolean> {
+	// The test binary is built with `cargo kani playback`, which the installed Kani may not support
+	if (!(await ensureFeatureSupported('playback'))) {
+		return false;
+	}
+
 	// The binary that is being referred to here, is the binary present in the cargo artifacts.
 	// It looks like this - kani_concrete_playback_check_estimate_size_14615086421508420155
-	const binaryName = await getBinaryPath();
+	const binaryName = await getBinaryPath(functionName, fileUri);
 
 	// These config options allow VSCode to attach the binary artifact to lldb's debugger extension, with
 	// kani extension acting as the bridge.
-	vscode.debug.startDebugging(vscode.workspace.getWorkspaceFolder(getRootDirURI()), {
+	return vscode.debug.startDebugging(getWorkspaceFolder(fileUri), {
 		type: 'lldb',
 		request: 'launch',
-		name: `test ${functionName}`,
+		name: getSessionName(functionName),
 		program: binaryName,
 		args: [functionName, '--nocapture'],
-		cwd: '${workspaceFolder}',
+		cwd: getCrateRoot(fileUri),
 		sourceLanguages: ['rust'],
 		env: {
 			RUST_BACKTRACE: 'short',
@@ -105,3 +137,103 @@ export async function connectToDebugger(functionName: string) {
 		},
 	});
 }
+
+/**
+ * Reproduce the failure of a harness in the debugger. A breakpoint is set at the first failed
+ * check and the concrete test Kani wrote for the counterexample while verifying the harness is
+ * debugged. The breakpoint is removed once the debug session ends.
+ *
+ * @param harnessArgs - harness that failed
+ * @param result - verification result of the harness
+ * @param playbackTest - name of the concrete test Kani reported writing, if any
+ * @returns true if the debug session was launched
+ */
+export async function debugFailedHarness(
+	harnessArgs: { harnessName: string; harnessFile: string; harnessType: boolean },
+	result: HarnessResult,
+	playbackTest?: string,
+): Promise<boolean> {
+	const fileUri = vscode.Uri.file(harnessArgs.harnessFile);
+	// Kani does not write the test again if the same counterexample was already played back, in
+	// which case the last test of the harness is debugged
+	const tests = findPlaybackTests(harnessArgs.harnessFile, harnessArgs.harnessName);
+	const testName = playbackTest ?? tests[tests.length - 1];
+	if (testName === undefined) {
+		vscode.window.showWarningMessage(
+			`Could not find the concrete test generated for ${harnessArgs.harnessName}.`,
+		);
+		return false;
+	}
+
+	const breakpoint = addFailureBreakpoint(result, getCrateRoot(fileUri));
+	const started = await connectToDebugger(testName, fileUri);
+	if (breakpoint !== undefined) {
+		removeBreakpointAfterSession(breakpoint, getSessionName(testName), started);
+	}
+	return started;
+}
+
+// Names of the concrete tests Kani generated for the harness in the file, in order of appearance
+function findPlaybackTests(filePath: string, harnessName: string): string[] {
+	const content = fs.readFileSync(filePath, 'utf-8');
+	const prefix = `kani_concrete_playback_${harnessName}_`;
+	const names = [...content.matchAll(/fn\s+(kani_concrete_playback_\w+)\s*\(/g)].map(
+		(match) => match[1],
+	);
+	return names.filter((name) => name.startsWith(prefix));
+}
+
+// Stop the debugger where the first failed check of the harness was reported. Assertions that
+// failed are preferred over other failed checks, i.e unreachable or undetermined ones.
+function addFailureBreakpoint(
+	result: HarnessResult,
+	crateRoot: string,
+): vscode.SourceBreakpoint | undefined {
+	const located = result.checks.filter((check) => check.location !== undefined);
+	const location = (
+		located.find((check) => check.status === 'FAILURE') ??
+		located.find((check) => failureStatuses.includes(check.status))
+	)?.location;
+	if (location === undefined) {
+		return undefined;
+	}
+
+	const filePath = path.isAbsolute(location.file)
+		? location.file
+		: path.join(crateRoot, location.file);
+	const line = Math.max(0, location.line - 1);
+	const exists = vscode.debug.breakpoints.some(
+		(breakpoint) =>
+			breakpoint instanceof vscode.SourceBreakpoint &&
+			breakpoint.location.uri.fsPath === filePath &&
+			breakpoint.location.range.start.line === line,
+	);
+	if (exists) {
+		return undefined;
+	}
+	const position = new vscode.Position(line, 0);
+	const breakpoint = new vscode.SourceBreakpoint(
+		new vscode.Location(vscode.Uri.file(filePath), position),
+	);
+	vscode.debug.addBreakpoints([breakpoint]);
+	return breakpoint;
+}
+
+// Remove the breakpoint added for the failure once the debug session of the test ends, or right
+// away if the session could not be started
+function removeBreakpointAfterSession(
+	breakpoint: vscode.SourceBreakpoint,
+	sessionName: string,
+	started: boolean,
+): void {
+	if (!started) {
+		vscode.debug.removeBreakpoints([breakpoint]);
+		return;
+	}
+	const listener = vscode.debug.onDidTerminateDebugSession((session) => {
+		if (session.name === sessionName) {
+			vscode.debug.removeBreakpoints([breakpoint]);
+			listener.dispose();
+		}
+	});
+}
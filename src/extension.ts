@@ -1,37 +1,68 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
 import * as vscode from 'vscode';
-import { Uri } from 'vscode';
 
-import { connectToDebugger } from './debugger/debugger';
+import { KaniArguments } from './constants';
+import { connectToDebugger, debugFailedHarness } from './debugger/debugger';
 import GlobalConfig from './globalConfig';
-import { getKaniPath, getKaniVersion } from './model/kaniRunner';
+import { clearCargoMetadata } from './model/cargoMetadata';
+import {
+	ensureFeatureSupported,
+	getKaniCapabilities,
+	supportsFeature,
+} from './model/kaniCapabilities';
+import VerificationCache from './model/verificationCache';
 import { gatherTestItems } from './test-tree/buildTree';
 import {
 	KaniData,
+	QueuedTestCase,
 	TestCase,
+	TestCheck,
 	TestFile,
+	createTestBatches,
 	findInitialFiles,
 	getOrCreateFile,
 	getWorkspaceTestPatterns,
+	runTestBatch,
 	testData,
 } from './test-tree/createTests';
 import { CodelensProvider } from './ui/CodeLensProvider';
 import { callConcretePlayback } from './ui/concrete-playback/concretePlayback';
+import {
+	ConcreteValuesProvider,
+	clearConcretePlaybackTests,
+} from './ui/concrete-playback/concreteValues';
 import { runKaniPlayback } from './ui/concrete-playback/kaniPlayback';
 import CoverageConfig from './ui/coverage/config';
 import { CoverageRenderer, runCodeCoverageAction } from './ui/coverage/coverageInfo';
+import { TestCoverageCollector, loadDetailedCoverage } from './ui/coverage/testCoverage';
+import KaniDiagnostics from './ui/diagnostics';
+import { KaniHoverProvider } from './ui/kaniHoverProvider';
+import {
+	loadKaniInstallation,
+	reloadKaniInstallation,
+	selectKaniInstallation,
+} from './ui/kaniInstallationPicker';
+import OutputManager from './ui/outputManager';
 import { callViewerReport } from './ui/reportView/callReport';
+import ReportHistory from './ui/reportView/reportHistory';
+import { pickReport } from './ui/reportView/reportPanel';
+import ReportServer from './ui/reportView/reportServer';
 import { showInformationMessage } from './ui/showMessage';
 import { SourceCodeParser } from './ui/sourceCodeParser';
+import { callTraceViewer } from './ui/traceView/traceViewer';
 import { startWatchingWorkspace } from './ui/watchWorkspace';
 import {
 	checkCargoExist,
 	getContentFromFilesystem,
-	getRootDirURI,
+	getMaxParallelHarnesses,
+	runWithConcurrency,
 	showErrorWithReportIssueButton,
 } from './utils';
 
+// Work done on a harness after it was verified, by the run profiles that do more than verifying
+type HarnessAction = (entry: QueuedTestCase, run: vscode.TestRun) => Promise<void>;
+
 // Entry point of the extension
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
 	if (!checkCargoExist()) {
@@ -41,24 +72,23 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		return;
 	}
 	try {
-		// GET binary path
-		const globalConfig = GlobalConfig.getInstance();
-		const kaniBinaryPath = await getKaniPath('cargo-kani');
-		globalConfig.setFilePath(kaniBinaryPath);
-
-		vscode.window.showInformationMessage(
-			`Kani located at ${kaniBinaryPath} being used for verification`,
-		);
-
-		// GET Version number and display to user
-		await getKaniVersion(globalConfig.getFilePath());
+		// GET binary path and version, and display them to the user
+		await loadKaniInstallation();
 	} catch (error) {
-		showErrorWithReportIssueButton(
-			'The Kani executable was not found in PATH. Please install it using the instructions at https://model-checking.github.io/kani/install-guide.html and/or make sure it is in your PATH.',
-		);
+		showErrorWithReportIssueButton((error as Error).message);
 		return;
 	}
 
+	// Results of harnesses are cached in the workspace state so they survive restarts
+	const verificationCache = VerificationCache.getInstance();
+	verificationCache.setStorage(context.workspaceState);
+
+	// Generated reports are copied to the storage of the workspace so earlier reports can be reopened
+	ReportHistory.getInstance().setStorage(
+		context.workspaceState,
+		(context.storageUri ?? context.globalStorageUri).fsPath,
+	);
+
 	const controller: vscode.TestController = vscode.tests.createTestController(
 		'Kani Proofs',
 		'Kani Proofs',
@@ -66,28 +96,33 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 	// create a uri for the root folder
 	context.subscriptions.push(controller);
+	// Output channels and diagnostics of Kani are disposed along with the extension
+	context.subscriptions.push(OutputManager.getInstance());
+	context.subscriptions.push(KaniDiagnostics.getInstance());
 	// Store coverage objects in a global cache when highlighting. When de-highlighting, the same objects need to be disposed
 	const coverageConfig = new CoverageConfig(context);
 	const globalConfig = GlobalConfig.getInstance();
-	const crateURI: Uri = getRootDirURI();
-	const treeRoot: vscode.TestItem = controller.createTestItem(
-		'Kani proofs',
-		'Kani Proofs',
-		crateURI,
-	);
 
 	/**
 	 * Run Handler is the controlled callback function that runs whenever a test case is clicked
 	 *
 	 * @param request - Run Request from VSCode, an event token that is passed upon when a test case is clicked
 	 * @param cancellation - Cancellation even token that is passed when the stop button is clicked
+	 * @param useCache - False if the harnesses must be verified again even if their result is cached
+	 * @param harnessAction - Work done on every harness once all of them have been verified
+	 * @param profileArgs - Arguments passed to Kani on top of those of the harness
 	 */
 	const runHandler = (
 		request: vscode.TestRunRequest,
 		cancellation: vscode.CancellationToken,
+		useCache = true,
+		harnessAction?: HarnessAction,
+		profileArgs: string[] = [],
 	): void => {
-		const queue: { test: vscode.TestItem; data: TestCase }[] = [];
+		const queue: QueuedTestCase[] = [];
 		const run: vscode.TestRun = controller.createTestRun(request);
+		// Harnesses whose verification completed, the others are errored if the run fails
+		const finished = new Set<vscode.TestItem>();
 		// map of file uris to statements on each line:
 
 		const discoverTests = async (tests: Iterable<vscode.TestItem>): Promise<void> => {
@@ -104,6 +139,16 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 					run.enqueued(test);
 					// This queue takes a tuple of test and it's data
 					queue.push({ test, data });
+				} else if (data instanceof TestCheck) {
+					// Checks are verified along with their harness
+					const harnessData = testData.get(data.harness);
+					if (
+						harnessData instanceof TestCase &&
+						!queue.some((entry) => entry.test === data.harness)
+					) {
+						run.enqueued(data.harness);
+						queue.push({ test: data.harness, data: harnessData });
+					}
 				} else {
 					// If it's been parsed by the parser, then it's either a testcase or a test heading
 					// if it's not already been processed, then get the children under the heading
@@ -117,24 +162,105 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			}
 		};
 
+		// Harnesses that were not verified are reported along with the error that stopped the run
+		const reportRunError = (error: unknown): void => {
+			const message = new vscode.TestMessage(
+				`Kani could not verify the harness: ${(error as Error).message}`,
+			);
+			for (const { test } of queue) {
+				if (!finished.has(test)) {
+					run.errored(test, message);
+				}
+			}
+		};
+
+		// Harnesses are verified by a pool of workers. Runs of the same package wait on cargo's
+		// build lock, so only the compilation is serialized while the solvers run in parallel.
+		// When batching is enabled, harnesses of the same package share one Kani invocation.
 		const runTestQueue = async (): Promise<void> => {
-			for (const { test, data } of queue) {
-				run.appendOutput(`Running ${test.id}\r\n`);
-				if (cancellation.isCancellationRequested) {
-					run.skipped(test);
-				} else {
-					run.started(test);
-					await data.run(test, run);
+			try {
+				const maxParallelHarnesses = getMaxParallelHarnesses();
+				// Batches pass `-j` and several `--harness` filters, which older versions of Kani reject
+				const batchHarnesses =
+					vscode.workspace.getConfiguration('Kani').get('batchHarnesses', true) &&
+					supportsFeature(await getKaniCapabilities(), 'jobs');
+
+				// Harnesses whose sources and Kani setup have not changed are reported from the cache
+				const pending: QueuedTestCase[] = [];
+				for (const entry of queue) {
+					if (cancellation.isCancellationRequested) {
+						run.skipped(entry.test);
+						finished.add(entry.test);
+					} else {
+						await entry.data.loadKaniConfig();
+						if (await entry.data.reportCachedResult(entry.test, run, useCache)) {
+							finished.add(entry.test);
+						} else {
+							pending.push(entry);
+						}
+					}
 				}
+				const batches = batchHarnesses
+					? createTestBatches(pending)
+					: pending.map((entry) => [entry]);
+
+				// The harnesses verified at the same time by every worker stay within the limit
+				const workers = Math.max(1, Math.min(maxParallelHarnesses, batches.length));
+				const jobsPerBatch = Math.max(1, Math.floor(maxParallelHarnesses / workers));
+
+				await runWithConcurrency(batches, maxParallelHarnesses, async (batch) => {
+					for (const { test } of batch) {
+						run.appendOutput(`Running ${test.id}\r\n`);
+						if (cancellation.isCancellationRequested) {
+							run.skipped(test);
+						} else {
+							run.started(test);
+						}
+					}
 
-				run.appendOutput(`Completed ${test.id}\r\n`);
-			}
+					if (!cancellation.isCancellationRequested) {
+						if (batch.length > 1) {
+							await runTestBatch(batch, run, jobsPerBatch, cancellation, profileArgs);
+						} else {
+							await batch[0].data.run(batch[0].test, run, cancellation, profileArgs);
+						}
+					}
 
-			run.end();
+					for (const { test } of batch) {
+						finished.add(test);
+						run.appendOutput(`Completed ${test.id}\r\n`);
+					}
+				});
+
+				// The extra work of the profile is done once every harness has been verified, one
+				// harness at a time since each action runs Kani again
+				if (harnessAction !== undefined) {
+					for (const entry of queue) {
+						if (cancellation.isCancellationRequested) {
+							break;
+						}
+						try {
+							await harnessAction(entry, run);
+						} catch (error) {
+							run.errored(entry.test, new vscode.TestMessage((error as Error).message));
+						}
+					}
+				}
+			} catch (error) {
+				reportRunError(error);
+			} finally {
+				run.end();
+			}
 		};
 
 		// Initial test case scan across the crate
-		discoverTests(request.include ?? gatherTestItems(controller.items)).then(runTestQueue);
+		discoverTests(request.include ?? gatherTestItems(controller.items)).then(
+			runTestQueue,
+			(error) => {
+				reportRunError(error);
+				run.end();
+			},
+		);
 	};
 
 	/**
@@ -155,9 +281,145 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 	// Add run handler to run profile as a test run (vs debug run)
 	controller.createRunProfile('Kani Proofs', vscode.TestRunProfileKind.Run, runHandler, true);
+	// Verify the harnesses again even if their results are cached
+	controller.createRunProfile(
+		'Kani Proofs (skip cache)',
+		vscode.TestRunProfileKind.Run,
+		(request, cancellation) => runHandler(request, cancellation, false),
+		false,
+	);
+	// Verify the harnesses, then generate a concrete test for every harness that failed
+	controller.createRunProfile(
+		'Verify + generate concrete tests for failures',
+		vscode.TestRunProfileKind.Run,
+		(request, cancellation) =>
+			runHandler(request, cancellation, true, async ({ test, data }, run) => {
+				if (data.lastStatusCode === 1) {
+					run.appendOutput(`Generating concrete test for ${test.id}\r\n`);
+					await callConcretePlayback(data.getHarnessArgs());
+				}
+			}),
+		false,
+	);
+	// Verify the harnesses, then highlight the lines they cover
+	controller.createRunProfile(
+		'Verify with coverage',
+		vscode.TestRunProfileKind.Run,
+		(request, cancellation) =>
+			runHandler(request, cancellation, true, async ({ test, data }, run) => {
+				run.appendOutput(`Generating coverage for ${test.id}\r\n`);
+				await runCodeCoverageAction(renderer, data.harness_name, test.uri);
+			}),
+		false,
+	);
+	// Verify the harnesses, then generate the HTML report of each of them
+	controller.createRunProfile(
+		'Verify + generate HTML report',
+		vscode.TestRunProfileKind.Run,
+		(request, cancellation) =>
+			runHandler(request, cancellation, true, async ({ test, data }, run) => {
+				run.appendOutput(`Generating report for ${test.id}\r\n`);
+				await callViewerReport('Kani.runViewerReport', data.getHarnessArgs());
+			}),
+		false,
+	);
+
+	// Verify the harnesses and show the lines they cover in the Test Coverage view and the gutter
+	const coverageProfile = controller.createRunProfile(
+		'Kani Proofs (coverage)',
+		vscode.TestRunProfileKind.Coverage,
+		async (request, cancellation) => {
+			// The installed Kani may not support coverage, in which case the user is told why
+			if (!(await ensureFeatureSupported('coverage'))) {
+				return;
+			}
+			// Kani reports the coverage along with the result of the harness, so cached results are
+			// not used
+			const collector = new TestCoverageCollector();
+			runHandler(
+				request,
+				cancellation,
+				false,
+				async ({ data }, run) => {
+					if (data.lastCoverage.length > 0) {
+						collector.add(run, data.lastCoverage, data.getCrateRoot());
+					}
+				},
+				[
+					KaniArguments.coverageFlag,
+					KaniArguments.unstableFeatureFlag,
+					KaniArguments.lineCoverageFeature,
+				],
+			);
+		},
+		true,
+	);
+	coverageProfile.loadDetailedCoverage = loadDetailedCoverage;
+
+	// Verify the harnesses and debug the concrete test of the first one that fails. Only one
+	// session is launched since every session builds and runs its own test binary. Kani writes the
+	// concrete tests while verifying, so cached results are not used.
+	controller.createRunProfile(
+		'Kani Proofs (debug failures)',
+		vscode.TestRunProfileKind.Debug,
+		async (request, cancellation) => {
+			// The installed Kani may not support concrete playback, in which case the user is told why
+			if (!(await ensureFeatureSupported('concretePlayback'))) {
+				return;
+			}
+			let launched = false;
+			runHandler(
+				request,
+				cancellation,
+				false,
+				async ({ test, data }, run) => {
+					if (launched || data.lastStatusCode !== 1 || data.lastResult === undefined) {
+						return;
+					}
+					run.appendOutput(`Debugging the counterexample of ${test.id}\r\n`);
+					launched = await debugFailedHarness(
+						data.getHarnessArgs(),
+						data.lastResult,
+						data.lastPlaybackTest,
+					);
+				},
+				[
+					KaniArguments.unstableFeatureFlag,
+					KaniArguments.concretePlaybackFeature,
+					KaniArguments.concretePlaybackInPlaceFlag,
+				],
+			);
+		},
+		true,
+	);
+
+	// The hover reads the Kani configuration from the cargo metadata, so both are cleared together
+	const kaniHoverProvider = new KaniHoverProvider();
+
+	// Hashes of the sources are computed again once any of them changes
+	const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/{*.rs,Cargo.toml,Cargo.lock}');
+	// The package and target graph only changes with the manifests or when target roots come and go
+	sourceWatcher.onDidChange((uri) => {
+		verificationCache.clearSourceHashes();
+		if (uri.fsPath.endsWith('Cargo.toml')) {
+			clearCargoMetadata();
+			kaniHoverProvider.clearConfigs();
+		}
+	});
+	sourceWatcher.onDidCreate(() => {
+		verificationCache.clearSourceHashes();
+		clearCargoMetadata();
+		kaniHoverProvider.clearConfigs();
+	});
+	sourceWatcher.onDidDelete(() => {
+		verificationCache.clearSourceHashes();
+		clearCargoMetadata();
+		kaniHoverProvider.clearConfigs();
+	});
+	context.subscriptions.push(sourceWatcher);
 
 	// Add crate watcher to vscode subscriptions
-	context.subscriptions.push(...startWatchingWorkspace(controller, treeRoot));
+	context.subscriptions.push(...startWatchingWorkspace(controller, true));
 
 	controller.resolveHandler = async (item): Promise<void> => {
 		if (!item) {
@@ -167,7 +429,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		const data: KaniData | undefined = testData.get(item);
 		if (data instanceof TestFile) {
 			await data.updateFromDisk(controller, item);
-			data.addToCrate(controller, item, treeRoot);
+			data.addToCrate(controller, item);
 		}
 	};
 
@@ -181,6 +443,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		showInformationMessage('Kani.runcargoKani');
 	});
 
+	// Forget every cached result so the next run verifies all harnesses again
+	const clearVerificationCache = vscode.commands.registerCommand(
+		'Kani.clearVerificationCache',
+		async () => {
+			await verificationCache.clear();
+			vscode.window.showInformationMessage('Kani verification cache cleared');
+		},
+	);
+
+	// Switch between the Kani installations found on the machine
+	const selectInstallation = vscode.commands.registerCommand(
+		'Kani.selectInstallation',
+		selectKaniInstallation,
+	);
+
 	// Register the run viewer report command
 	const runningViewerReport = vscode.commands.registerCommand(
 		'Kani.runViewerReport',
@@ -189,6 +466,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		},
 	);
 
+	// Reopen or delete the reports generated for the harnesses
+	const showingReports = vscode.commands.registerCommand(
+		'Kani.showReports',
+		async (harnessName?: string) => {
+			pickReport(harnessName);
+		},
+	);
+
 	// Register the run viewer report command
 	const runningConcretePlayback = vscode.commands.registerCommand(
 		'Kani.runConcretePlayback',
@@ -197,6 +482,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		},
 	);
 
+	// Register the command that explores the counterexample of a harness in the trace viewer
+	const showingTrace = vscode.commands.registerCommand('Kani.showTrace', async (harnessArgs) => {
+		callTraceViewer(harnessArgs);
+	});
+
 	// Callback function to Find or create files, update test tree and present to user upon trigger
 	async function updateNodeForDocument(e: vscode.TextDocument): Promise<void> {
 		if (e.uri.scheme !== 'file') {
@@ -213,7 +503,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 		const { file, data } = await getOrCreateFile(controller, e.uri);
 		await data.updateFromContents(controller, e.getText(), file);
-		data.addToCrate(controller, file, treeRoot);
+		data.addToCrate(controller, file);
 	}
 
 	const codelensProvider = new CodelensProvider();
@@ -224,6 +514,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		codelensProvider,
 	);
 
+	// Show the decoded values of the concrete playback tests inline and on hover
+	const concreteValuesProvider = new ConcreteValuesProvider();
+	context.subscriptions.push(
+		vscode.languages.registerInlayHintsProvider(rustLanguageSelector, concreteValuesProvider),
+		vscode.languages.registerHoverProvider(rustLanguageSelector, concreteValuesProvider),
+		vscode.workspace.onDidCloseTextDocument(clearConcretePlaybackTests),
+	);
+
+	// Document the Kani attributes and APIs on hover
+	context.subscriptions.push(
+		vscode.languages.registerHoverProvider(rustLanguageSelector, kaniHoverProvider),
+		vscode.workspace.onDidCloseTextDocument((document) =>
+			kaniHoverProvider.clearDocument(document),
+		),
+	);
+
 	// Allows VSCode to enable code lens globally.
 	// If the user switches off code lens in settings, the Kani code lens action will be switched off too.
 	vscode.commands.registerCommand('codelens-kani.enableCodeLens', () => {
@@ -246,9 +552,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	});
 
 	// Register the command for the code lens Kani test runner function
-	vscode.commands.registerCommand('codelens-kani.codelensAction', (args: any) => {
-		runKaniPlayback(args);
-	});
+	vscode.commands.registerCommand(
+		'codelens-kani.codelensAction',
+		(args: any, fileUri?: vscode.Uri) => {
+			runKaniPlayback(args, fileUri);
+		},
+	);
 
 	// Separate rendering logic and re-use everywhere to highlight and de-highlight
 	const renderer = new CoverageRenderer(coverageConfig);
@@ -262,6 +571,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		},
 	);
 
+	// Use the new Kani installation as soon as the settings change, without reloading the window
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(async (e) => {
+			if (
+				e.affectsConfiguration('Kani.executablePath') ||
+				e.affectsConfiguration('Kani.executableSearchPaths')
+			) {
+				await reloadKaniInstallation();
+			}
+		}),
+	);
+
 	// Update the test tree with proofs whenever a test case is opened
 	context.subscriptions.push(
 		vscode.workspace.onDidOpenTextDocument(updateNodeForDocument),
@@ -277,19 +598,28 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 	context.subscriptions.push(runKani);
 	context.subscriptions.push(runcargoKani);
+	context.subscriptions.push(clearVerificationCache);
+	context.subscriptions.push(selectInstallation);
 	context.subscriptions.push(runningViewerReport);
+	context.subscriptions.push(showingReports);
+	context.subscriptions.push(ReportServer.getInstance());
 	context.subscriptions.push(runningConcretePlayback);
+	context.subscriptions.push(showingTrace);
 	context.subscriptions.push(providerDisposable);
 	context.subscriptions.push(
-		vscode.commands.registerCommand('extension.connectToDebugger', (programName) =>
-			connectToDebugger(programName),
+		vscode.commands.registerCommand(
+			'extension.connectToDebugger',
+			(programName, fileUri?: vscode.Uri) => connectToDebugger(programName, fileUri),
 		),
 	);
 	// Register the command for running the coverage action on a harness
 	context.subscriptions.push(
-		vscode.commands.registerCommand('codelens-kani.highlightCoverage', (args: any) => {
-			runCodeCoverageAction(renderer, args);
-		}),
+		vscode.commands.registerCommand(
+			'codelens-kani.highlightCoverage',
+			(args: any, fileUri?: vscode.Uri) => {
+				runCodeCoverageAction(renderer, args, fileUri);
+			},
+		),
 	);
 
 	// Register the command for de-highlighting kani's coverage action on a harness
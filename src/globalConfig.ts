@@ -3,10 +3,12 @@
 class GlobalConfig {
 	private static instance: GlobalConfig;
 	private filePath: string;
+	private kaniVersion: string;
 	public coverageMap: any;
 
 	private constructor() {
 		this.filePath = '';
+		this.kaniVersion = '';
 	}
 
 	public static getInstance(): GlobalConfig {
@@ -33,6 +35,14 @@ class GlobalConfig {
 	public getFilePath(): string {
 		return this.filePath;
 	}
+
+	public setKaniVersion(kaniVersion: string): void {
+		this.kaniVersion = kaniVersion;
+	}
+
+	public getKaniVersion(): string {
+		return this.kaniVersion;
+	}
 }
 
 export default GlobalConfig;
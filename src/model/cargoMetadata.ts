@@ -0,0 +1,243 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import { execFile } from 'child_process';
+import * as path from 'path';
+
+/**
+ * A target of a cargo package, i.e its library or one of its binaries
+ *
+ * @param name - Name of the target, which differs from the package name if `[lib] name` is set
+ * @param kind - Kinds of the target, i.e `lib`, `bin`, `test`, `example` or `bench`
+ * @param srcPath - Absolute path of the root source file of the target
+ */
+export interface CargoTarget {
+	name: string;
+	kind: string[];
+	srcPath: string;
+}
+
+/**
+ * A package of the cargo workspace
+ *
+ * @param name - Name of the package, as passed to `-p`
+ * @param manifestPath - Absolute path of the Cargo.toml of the package
+ * @param targets - Targets built from the package
+ * @param pathDependencies - Directories of the dependencies given with a `path`
+ * @param metadata - The `[package.metadata]` table of the manifest
+ */
+export interface CargoPackage {
+	name: string;
+	manifestPath: string;
+	targets: CargoTarget[];
+	pathDependencies: string[];
+	metadata: unknown;
+}
+
+/**
+ * Package and target graph of a cargo workspace, read from `cargo metadata`
+ *
+ * @param workspaceRoot - Directory of the root manifest, which can be a virtual manifest
+ * @param targetDirectory - Directory cargo writes its build artifacts to
+ * @param packages - Members of the workspace
+ * @param metadata - The `[workspace.metadata]` table of the root manifest
+ */
+export interface CargoWorkspace {
+	workspaceRoot: string;
+	targetDirectory: string;
+	packages: CargoPackage[];
+	metadata: unknown;
+}
+
+// Package and target that a source file is compiled in, and the workspace they belong to
+export interface CargoFileTarget {
+	workspace: CargoWorkspace;
+	package: CargoPackage;
+	target: CargoTarget;
+}
+
+// Parse the output of `cargo metadata --no-deps --format-version 1`
+export function parseCargoMetadata(content: string): CargoWorkspace {
+	const metadata = JSON.parse(content);
+	return {
+		workspaceRoot: metadata.workspace_root,
+		targetDirectory: metadata.target_directory,
+		packages: (metadata.packages ?? []).map((cargoPackage: any) => ({
+			name: cargoPackage.name,
+			manifestPath: cargoPackage.manifest_path,
+			targets: (cargoPackage.targets ?? []).map((target: any) => ({
+				name: target.name,
+				kind: target.kind ?? [],
+				srcPath: target.src_path,
+			})),
+			pathDependencies: (cargoPackage.dependencies ?? [])
+				.filter((dependency: any) => typeof dependency.path === 'string')
+				.map((dependency: any) => dependency.path),
+			metadata: cargoPackage.metadata ?? undefined,
+		})),
+		metadata: metadata.metadata ?? undefined,
+	};
+}
+
+/**
+ * Find the package and target a source file belongs to. The file belongs to the package with the
+ * closest manifest, and to the target whose root file is the file itself or is in the closest
+ * directory above it. The library is preferred over binaries that share the same directory.
+ *
+ * @param workspace - package and target graph of the workspace
+ * @param filePath - absolute path of the source file
+ * @returns the package and target of the file, or undefined if no package contains it
+ */
+export function findFileTarget(
+	workspace: CargoWorkspace,
+	filePath: string,
+): CargoFileTarget | undefined {
+	const cargoPackage = closest(workspace.packages, filePath, (candidate) =>
+		path.dirname(candidate.manifestPath),
+	);
+	if (cargoPackage === undefined) {
+		return undefined;
+	}
+
+	const exactTarget = cargoPackage.targets.find((target) => target.srcPath === filePath);
+	if (exactTarget !== undefined) {
+		return { workspace, package: cargoPackage, target: exactTarget };
+	}
+
+	// Modules of a target live next to its root file or in directories below it
+	const libraryFirst = [...cargoPackage.targets].sort(
+		(a, b) => Number(isLibrary(b)) - Number(isLibrary(a)),
+	);
+	const target = closest(libraryFirst, filePath, (candidate) => path.dirname(candidate.srcPath));
+	return target === undefined ? undefined : { workspace, package: cargoPackage, target };
+}
+
+// Return the candidate whose directory is the closest ancestor of the file, the first one on ties
+function closest<T>(
+	candidates: T[],
+	filePath: string,
+	getDirectory: (candidate: T) => string,
+): T | undefined {
+	let best: T | undefined;
+	let bestLength = -1;
+	for (const candidate of candidates) {
+		const directory = getDirectory(candidate);
+		const relativePath = path.relative(directory, filePath);
+		const contains = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+		if (contains && directory.length > bestLength) {
+			best = candidate;
+			bestLength = directory.length;
+		}
+	}
+	return best;
+}
+
+/**
+ * Find the local packages a package is built from, i.e the package and the packages it depends
+ * on through a `path`, directly or through other local packages
+ *
+ * @param workspace - package and target graph of the workspace
+ * @param packageRoot - directory of the Cargo.toml of the package
+ * @returns the directories of the packages, or undefined if a path dependency is not a member of
+ * the workspace, since its own dependencies are not known
+ */
+export function getLocalPackageRoots(
+	workspace: CargoWorkspace,
+	packageRoot: string,
+): string[] | undefined {
+	const roots = [path.resolve(packageRoot)];
+	for (let index = 0; index < roots.length; index++) {
+		const cargoPackage = workspace.packages.find(
+			(candidate) => path.dirname(candidate.manifestPath) === roots[index],
+		);
+		if (cargoPackage === undefined) {
+			return undefined;
+		}
+		for (const dependency of cargoPackage.pathDependencies) {
+			const dependencyRoot = path.resolve(dependency);
+			if (!roots.includes(dependencyRoot)) {
+				roots.push(dependencyRoot);
+			}
+		}
+	}
+	return roots;
+}
+
+function isLibrary(target: CargoTarget): boolean {
+	return target.kind.some(
+		(kind) => kind === 'lib' || kind.endsWith('lib') || kind === 'proc-macro',
+	);
+}
+
+/**
+ * Arguments that restrict `cargo kani` to the target. Test targets are selected with `--tests`
+ * by the caller, so no arguments are returned for them.
+ *
+ * @param target - target containing the harness
+ * @returns `--lib`, or `--bin <name>` for binaries
+ */
+export function getTargetArgs(target: CargoTarget): string[] {
+	if (isLibrary(target)) {
+		return ['--lib'];
+	}
+	if (target.kind.includes('bin')) {
+		return ['--bin', target.name];
+	}
+	return [];
+}
+
+// `cargo metadata` runs once per crate root, until a manifest changes
+const metadataCache = new Map<string, Promise<CargoWorkspace | undefined>>();
+
+/**
+ * Get the package and target graph of the cargo workspace at the crate root
+ *
+ * @param crateRoot - directory cargo runs in
+ * @returns the workspace, or undefined if `cargo metadata` failed
+ */
+export function getCargoMetadata(crateRoot: string): Promise<CargoWorkspace | undefined> {
+	let metadata = metadataCache.get(crateRoot);
+	if (metadata === undefined) {
+		metadata = readCargoMetadata(crateRoot);
+		metadataCache.set(crateRoot, metadata);
+	}
+	return metadata;
+}
+
+// Forget the cached metadata, i.e after a manifest or the set of source files changed
+export function clearCargoMetadata(): void {
+	metadataCache.clear();
+}
+
+/**
+ * Find the package and target of a source file from the metadata of its cargo workspace
+ *
+ * @param crateRoot - directory cargo runs in for the file
+ * @param filePath - absolute path of the source file
+ * @returns the package and target of the file, or undefined if they could not be determined
+ */
+export async function getFileTarget(
+	crateRoot: string,
+	filePath: string,
+): Promise<CargoFileTarget | undefined> {
+	const workspace = await getCargoMetadata(crateRoot);
+	return workspace === undefined ? undefined : findFileTarget(workspace, filePath);
+}
+
+function readCargoMetadata(crateRoot: string): Promise<CargoWorkspace | undefined> {
+	const args = ['metadata', '--no-deps', '--format-version', '1'];
+	return new Promise((resolve) => {
+		execFile('cargo', args, { cwd: crateRoot, maxBuffer: 64 * 1024 * 1024 }, (error, stdout) => {
+			if (error) {
+				console.error(`cargo metadata failed in ${crateRoot}: ${error}`);
+				resolve(undefined);
+				return;
+			}
+			try {
+				resolve(parseCargoMetadata(stdout));
+			} catch (parseError) {
+				console.error(`Could not parse cargo metadata: ${parseError}`);
+				resolve(undefined);
+			}
+		});
+	});
+}
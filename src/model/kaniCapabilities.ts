@@ -0,0 +1,222 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import { execFile } from 'child_process';
+
+import * as vscode from 'vscode';
+
+import { KaniArguments } from '../constants';
+import GlobalConfig from '../globalConfig';
+
+export interface KaniVersion {
+	major: number;
+	minor: number;
+	patch: number;
+}
+
+// Features of Kani used by the extension that are not available in every version
+export type KaniFeature =
+	| 'coverage'
+	| 'report'
+	| 'concretePlayback'
+	| 'playback'
+	| 'list'
+	| 'stubbing'
+	| 'exportJson'
+	| 'targetSelection'
+	| 'trace'
+	| 'jobs';
+
+/**
+ * What the installed Kani supports, learned from its `--version` and `--help` output
+ *
+ * @param version - Version of Kani, if it could be parsed
+ * @param probed - False if the help could not be read, in which case every feature is assumed to be supported
+ * @param subcommands - Subcommands of `cargo kani`, i.e `playback` or `list`
+ * @param flags - Long flags accepted by `cargo kani`
+ * @param unstableFeatures - Values accepted by `-Z`, if the help lists them
+ */
+export interface KaniCapabilities {
+	version?: KaniVersion;
+	probed: boolean;
+	subcommands: string[];
+	flags: string[];
+	unstableFeatures: string[];
+}
+
+const featureDescriptions: Record<KaniFeature, string> = {
+	coverage: 'line coverage (`--coverage`)',
+	report: 'HTML reports (`--visualize`)',
+	concretePlayback: 'concrete playback (`--concrete-playback`)',
+	playback: 'running concrete tests (`cargo kani playback`)',
+	list: 'listing harnesses (`cargo kani list`)',
+	stubbing: 'stubbing (`--enable-stubbing`)',
+	exportJson: 'machine-readable results (`--export-json`)',
+	targetSelection: 'selecting the target to verify (`--lib`, `--bin`)',
+	trace: 'counterexample traces (`--cbmc-args --trace`)',
+	jobs: 'verifying harnesses in parallel (`--jobs`)',
+};
+
+// Context keys used by `when` clauses to disable the commands the installed Kani can't run
+const featureContextKeys: Partial<Record<KaniFeature, string>> = {
+	coverage: 'kani.supportsCoverage',
+};
+
+// Parse the first `major.minor[.patch]` version found in the text, i.e `cargo-kani 0.40.0`
+export function parseKaniVersion(text: string): KaniVersion | undefined {
+	const match = text.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+	if (!match) {
+		return undefined;
+	}
+	return {
+		major: parseInt(match[1]),
+		minor: parseInt(match[2]),
+		patch: match[3] === undefined ? 0 : parseInt(match[3]),
+	};
+}
+
+// Negative if `a` is older than `b`, positive if it is newer and zero if they are the same
+export function compareVersions(a: KaniVersion, b: KaniVersion): number {
+	return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+export function formatVersion(version: KaniVersion): string {
+	return `${version.major}.${version.minor}.${version.patch}`;
+}
+
+/**
+ * Extract the subcommands, flags and unstable features from the help of `cargo kani`
+ *
+ * @param help - output of `cargo kani --help`
+ * @param version - version of Kani, if known
+ * @returns the capabilities described by the help
+ */
+export function parseKaniHelp(help: string, version?: KaniVersion): KaniCapabilities {
+	const subcommands: string[] = [];
+	let inCommands = false;
+	for (const line of help.split('\n')) {
+		if (/^\s*(Commands|SUBCOMMANDS):\s*$/.test(line)) {
+			inCommands = true;
+			continue;
+		}
+		if (inCommands) {
+			const command = line.match(/^\s+([a-z][\w-]*)/);
+			if (!command) {
+				inCommands = false;
+				continue;
+			}
+			subcommands.push(command[1]);
+		}
+	}
+
+	const flags = [...new Set(help.match(/--[a-z][\w-]*/g) ?? [])];
+
+	// clap lists the accepted values after the description of the option
+	const unstableHelp = help.match(/-Z[^[]*\[possible values: ([^\]]*)\]/);
+	const unstableFeatures = unstableHelp
+		? unstableHelp[1].split(',').map((feature) => feature.trim())
+		: [];
+
+	return { version, probed: true, subcommands, flags, unstableFeatures };
+}
+
+// Return true if the installed Kani can run the feature
+export function supportsFeature(capabilities: KaniCapabilities, feature: KaniFeature): boolean {
+	if (!capabilities.probed) {
+		return true;
+	}
+	switch (feature) {
+		case 'coverage':
+			return capabilities.flags.includes('--coverage');
+		case 'report':
+			return capabilities.flags.includes('--visualize');
+		case 'concretePlayback':
+			return capabilities.flags.includes('--concrete-playback');
+		case 'playback':
+			return capabilities.subcommands.includes('playback');
+		case 'list':
+			return capabilities.subcommands.includes('list');
+		case 'stubbing':
+			return capabilities.flags.includes(KaniArguments.stubbingFlag);
+		case 'exportJson':
+			return capabilities.flags.includes(KaniArguments.exportJsonFlag);
+		case 'targetSelection':
+			return capabilities.flags.includes('--lib');
+		case 'trace':
+			return (
+				capabilities.flags.includes('--cbmc-args') && capabilities.flags.includes('--output-format')
+			);
+		case 'jobs':
+			return capabilities.flags.includes('--jobs');
+	}
+}
+
+// Explain to the user why the feature can't be used with the installed Kani
+export function getUnsupportedFeatureMessage(
+	capabilities: KaniCapabilities,
+	feature: KaniFeature,
+): string {
+	const version = capabilities.version
+		? `Kani ${formatVersion(capabilities.version)}`
+		: 'The installed Kani';
+	return `${version} does not support ${featureDescriptions[feature]}. Please install a version of Kani that does, using the instructions at https://model-checking.github.io/kani/install-guide.html.`;
+}
+
+// The probe runs once per binary since the active installation can be switched
+const capabilitiesCache = new Map<string, Promise<KaniCapabilities>>();
+
+// Probe the capabilities of the `cargo-kani` binary
+export function getKaniCapabilities(
+	kaniBinaryPath: string = GlobalConfig.getInstance().getFilePath(),
+): Promise<KaniCapabilities> {
+	let capabilities = capabilitiesCache.get(kaniBinaryPath);
+	if (capabilities === undefined) {
+		capabilities = probeKaniCapabilities(kaniBinaryPath);
+		capabilitiesCache.set(kaniBinaryPath, capabilities);
+	}
+	return capabilities;
+}
+
+async function probeKaniCapabilities(kaniBinaryPath: string): Promise<KaniCapabilities> {
+	const version = parseKaniVersion((await readOutput(kaniBinaryPath, ['--version'])) ?? '');
+	const help = await readOutput(kaniBinaryPath, ['--help']);
+	if (help === undefined) {
+		return { version, probed: false, subcommands: [], flags: [], unstableFeatures: [] };
+	}
+	return parseKaniHelp(help, version);
+}
+
+function readOutput(kaniBinaryPath: string, args: string[]): Promise<string | undefined> {
+	return new Promise((resolve) => {
+		execFile(kaniBinaryPath, args, (error, stdout) => {
+			resolve(error ? undefined : stdout);
+		});
+	});
+}
+
+/**
+ * Check that the installed Kani supports a feature before running a command that needs it, and
+ * explain to the user why the command can't run otherwise
+ *
+ * @param feature - feature needed by the command
+ * @returns true if the command can run
+ */
+export async function ensureFeatureSupported(feature: KaniFeature): Promise<boolean> {
+	const capabilities = await getKaniCapabilities();
+	if (supportsFeature(capabilities, feature)) {
+		return true;
+	}
+	vscode.window.showWarningMessage(getUnsupportedFeatureMessage(capabilities, feature));
+	return false;
+}
+
+// Update the context keys so that the commands the installed Kani can't run are disabled
+export async function updateCapabilityContext(): Promise<void> {
+	const capabilities = await getKaniCapabilities();
+	for (const [feature, contextKey] of Object.entries(featureContextKeys)) {
+		await vscode.commands.executeCommand(
+			'setContext',
+			contextKey,
+			supportsFeature(capabilities, feature as KaniFeature),
+		);
+	}
+}
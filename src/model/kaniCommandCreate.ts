@@ -2,19 +2,26 @@
 // SPDX-License-Identifier: Apache-2.0 OR MIT
 import * as vscode from 'vscode';
 
-import { KaniArguments, KaniConstants, KaniResponse } from '../constants';
-import { KaniResponseError } from './kaniOutputParser';
-import { createFailedDiffMessage, runKaniCommand } from './kaniRunner';
+import { KaniArguments, KaniConstants } from '../constants';
+import {
+	getKaniCapabilities,
+	getUnsupportedFeatureMessage,
+	supportsFeature,
+} from './kaniCapabilities';
+import { KaniResponseError, createEmptyHarnessResult } from './kaniOutputParser';
+import { HarnessResult, HarnessVerification, KaniExecution } from './kaniResult';
+import { KaniRunOptions, runKaniCommand } from './kaniRunner';
 
 /**
- * Generate command and run `cargo-kani` on the command, and return the output status code of the sub-process
+ * Generate command and run `cargo-kani` on the command, and return the parsed verification result of the harness
  *
  * @param harnessName - name of the harness that is to be verified
  * @param packageName - name of the package containing the harnesses
  * @param testFlag - if True, this means that it is a proof declared under #[cfg(test)]. By default, it is false for kani proofs
  * @param stubbing_args - if stubbing attribute is present on the harness, we pass this flag
  * @param qualified_name - fully qualified harness name. Example - outer::middle::inner::harness_name
- * @returns verification status (i.e success or failure)
+ * @param runOptions - cancellation token and live output callback for the verification
+ * @returns verification status (i.e success or failure) along with the checks reported by Kani
  */
 export async function runKaniHarnessInterface(
 	harnessName: string,
@@ -22,7 +29,17 @@ export async function runKaniHarnessInterface(
 	testFlag: boolean = false,
 	stubbing_args?: boolean,
 	qualified_name?: string,
-): Promise<any> {
+	runOptions?: KaniRunOptions,
+): Promise<HarnessVerification> {
+	const unsupportedMessage = await checkStubbingSupport(stubbing_args);
+	if (unsupportedMessage !== undefined) {
+		return {
+			statusCode: -1,
+			result: createEmptyHarnessResult(harnessName),
+			errorMessage: unsupportedMessage,
+		};
+	}
+
 	// If we have an expanded or qualified name from the parser, then we try running kani with that
 	// or else we try it with just the harness name
 	if (qualified_name != undefined && qualified_name != '') {
@@ -33,7 +50,7 @@ export async function runKaniHarnessInterface(
 				testFlag,
 				stubbing_args,
 			);
-			const kaniOutput = await catchOutput(fullyQualifiedCommand);
+			const kaniOutput = await catchOutput(fullyQualifiedCommand, qualified_name, runOptions);
 			return kaniOutput;
 		} catch (error) {
 			if (error instanceof KaniResponseError) {
@@ -44,28 +61,113 @@ export async function runKaniHarnessInterface(
 						const harnessCommand = createCommand(harnessName, packageName, testFlag, stubbing_args);
 						// catchOutput contains error handling already in case even the command with pure harness name fails.
 						// We are just trying to reduce the output to a statusCode in this function.
-						const kaniOutput = await catchOutput(harnessCommand);
+						const kaniOutput = await catchOutput(harnessCommand, harnessName, runOptions);
 						return kaniOutput;
 					} catch (error) {
-						return -1;
+						return createFailedVerification(harnessName, error);
 					}
 				} else {
 					console.error(error.message, error.cause);
-					return -1;
+					return createFailedVerification(harnessName, error);
 				}
 			}
+			return createFailedVerification(harnessName, error);
 		}
 	} else {
 		const harnessCommand = createCommand(harnessName, packageName, testFlag, stubbing_args);
 		try {
-			const kaniOutput = await catchOutput(harnessCommand);
+			const kaniOutput = await catchOutput(harnessCommand, harnessName, runOptions);
 			return kaniOutput;
 		} catch (error) {
-			return -1;
+			return createFailedVerification(harnessName, error);
 		}
 	}
 }
 
+// Explain why the harness can't be verified if it needs stubbing and the installed Kani lacks it
+async function checkStubbingSupport(stubbing_args?: boolean): Promise<string | undefined> {
+	if (!stubbing_args) {
+		return undefined;
+	}
+	const capabilities = await getKaniCapabilities();
+	return supportsFeature(capabilities, 'stubbing')
+		? undefined
+		: getUnsupportedFeatureMessage(capabilities, 'stubbing');
+}
+
+// Result of a harness that Kani could not verify. Timeouts and harnesses that Kani did not find
+// are explained to the user since they are expected, unlike other errors which are already
+// reported by the runner.
+function createFailedVerification(harnessName: string, error: unknown): HarnessVerification {
+	const expected =
+		error instanceof KaniResponseError &&
+		(error.name === 'TimeoutError' || error.name === 'NoHarnessesError');
+	return {
+		statusCode: -1,
+		result: createEmptyHarnessResult(harnessName),
+		errorMessage: expected ? error.message : undefined,
+	};
+}
+
+/**
+ * Verify several harnesses of the same package with a single `cargo kani` invocation
+ *
+ * @param harnessNames - names of the harnesses that are to be verified
+ * @param packageName - name of the package containing the harnesses
+ * @param testFlag - if True, the harnesses are declared under #[cfg(test)]
+ * @param stubbing_args - if any of the harnesses uses stubbing, we pass this flag
+ * @param jobs - number of harnesses Kani verifies in parallel
+ * @param runOptions - cancellation token and live output callback for the verification
+ * @returns the status code and the results of every harness, or an empty result if none of the
+ * harness names matched
+ * @throws the error that stopped Kani, i.e a KaniResponseError if the verification was cancelled
+ * or timed out, or an error if the harnesses need stubbing and the installed Kani does not support it
+ */
+export async function runKaniBatchInterface(
+	harnessNames: string[],
+	packageName: string,
+	testFlag: boolean,
+	stubbing_args: boolean | undefined,
+	jobs: number,
+	runOptions?: KaniRunOptions,
+): Promise<KaniExecution | undefined> {
+	const unsupportedMessage = await checkStubbingSupport(stubbing_args);
+	if (unsupportedMessage !== undefined) {
+		throw new Error(unsupportedMessage);
+	}
+
+	const batchCommand = createBatchCommand(harnessNames, packageName, testFlag, stubbing_args, jobs);
+	try {
+		const execution = await runKaniCommand(batchCommand, false, runOptions);
+		return execution || undefined;
+	} catch (error) {
+		// The names expanded by the extension may not match any harness, in which case the harnesses
+		// are verified one by one
+		if (error instanceof KaniResponseError && error.name === 'NoHarnessesError') {
+			return { statusCode: -1, output: { harnesses: [], coverage: [] } };
+		}
+		throw error;
+	}
+}
+
+function createBatchCommand(
+	harnessNames: string[],
+	packageName: string,
+	testFlag: boolean,
+	stubbing_args: boolean | undefined,
+	jobs: number,
+): string {
+	const testArgs = testFlag ? `${KaniArguments.testsFlag} ` : '';
+	const stubbingArgs = stubbing_args
+		? `${KaniArguments.unstableFormatFlag} ${KaniArguments.stubbingFlag} `
+		: '';
+	const harnessFilters = harnessNames
+		.map((harnessName) => `${KaniArguments.harnessFlag} ${harnessName}`)
+		.join(' ');
+
+	return `${KaniConstants.CargoKaniExecutableName} ${testArgs}${stubbingArgs}${KaniArguments.jobsFlag} ${jobs} ${KaniArguments.packageFlag} ${packageName} ${harnessFilters}`;
+}
+
 function createCommand(
 	harnessName: string,
 	packageName: string,
@@ -90,26 +192,6 @@ function createCommand(
 	return harnessCommand;
 }
 
-/**
- *
- * Return failed checks as a lazy process when run by test case
- *
- * @param rsFile - Path to the file that is to be verified
- * @param harnessName - name of the harness that is to be verified
- * @param args - arguments to Kani if provided
- * @returns
- */
-export async function captureFailedChecks(
-	harnessName: string,
-	packageName: string,
-	testFlag: boolean,
-	stubbing_args?: boolean,
-): Promise<KaniResponse> {
-	const harnessCommand = createCommand(harnessName, packageName, testFlag, stubbing_args);
-	const kaniOutput = await createFailedDiffMessage(harnessCommand);
-	return kaniOutput;
-}
-
 // Generic function to run a command (Kani | Cargo Kani)
 export async function runCommandPure(command: string): Promise<void> {
 	let finalCommand = ``;
@@ -129,13 +211,62 @@ export async function runCommandPure(command: string): Promise<void> {
 	terminal.show();
 }
 
-// Run a command and capture the command line output into a string
-async function catchOutput(command: string): Promise<any> {
+// Run a command and capture the verification result of the harness from the command line output
+async function catchOutput(
+	command: string,
+	harnessName: string,
+	runOptions?: KaniRunOptions,
+): Promise<HarnessVerification> {
 	try {
-		const process = await runKaniCommand(command);
-		return process;
+		const execution = await runKaniCommand(command, false, runOptions);
+		if (!execution) {
+			return { statusCode: -1, result: createEmptyHarnessResult(harnessName) };
+		}
+		return getHarnessVerification(execution, harnessName);
 	} catch (error) {
 		console.error(error);
 		throw error;
 	}
 }
+
+/**
+ * Pick the verification of a harness out of the execution of Kani
+ *
+ * @param execution - status code and parsed output of Kani
+ * @param harnessName - name passed to the `--harness` filter
+ * @returns the result of the harness, with the status code of Kani if the output did not name it
+ */
+export function getHarnessVerification(
+	execution: KaniExecution,
+	harnessName: string,
+): HarnessVerification {
+	const result = findHarnessResult(execution.output.harnesses, harnessName);
+	if (result === undefined) {
+		return { statusCode: execution.statusCode, result: createEmptyHarnessResult(harnessName) };
+	}
+	// The status code of Kani also covers the other harnesses that matched the filter
+	const statusCodes: Record<string, number> = { SUCCESSFUL: 0, FAILED: 1 };
+	return {
+		statusCode: statusCodes[result.status] ?? execution.statusCode,
+		result: result,
+		coverage: execution.output.harnessCoverage?.[result.harness],
+	};
+}
+
+// Kani verifies every harness whose name contains the `--harness` filter, so the result is the one
+// reported under the name, or the only one whose path ends with it. A single result without a
+// name is from an output that did not name the harness.
+function findHarnessResult(
+	harnesses: HarnessResult[],
+	harnessName: string,
+): HarnessResult | undefined {
+	const exact = harnesses.find((harness) => harness.harness === harnessName);
+	if (exact !== undefined) {
+		return exact;
+	}
+	const suffixed = harnesses.filter((harness) => harness.harness.endsWith(`::${harnessName}`));
+	if (suffixed.length === 1) {
+		return suffixed[0];
+	}
+	return harnesses.length === 1 && harnesses[0].harness === '' ? harnesses[0] : undefined;
+}
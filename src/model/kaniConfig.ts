@@ -0,0 +1,187 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as vscode from 'vscode';
+
+import { getCrateRoot } from '../utils';
+import { getFileTarget } from './cargoMetadata';
+
+// Value of a flag in the `flags` table, i.e `default-unwind = 4` or `features = ["a", "b"]`
+export type KaniFlagValue = boolean | string | number | (string | number)[];
+
+/**
+ * Kani configuration of a package, read from the `[workspace.metadata.kani]` and
+ * `[package.metadata.kani]` tables of its manifests
+ *
+ * @param flags - Flags passed to Kani, keyed by their name without the leading dashes
+ * @param unstable - Unstable features passed to Kani with `-Z`, i.e `stubbing = true`
+ * @param harness - Flags and unstable features of single harnesses, keyed by the harness name
+ */
+export interface KaniConfig {
+	flags: Record<string, KaniFlagValue>;
+	unstable: Record<string, boolean>;
+	harness: Record<string, Omit<KaniConfig, 'harness'>>;
+}
+
+// Kani invocations that accept different flags. `cargo kani playback` only builds and runs the
+// concrete tests, so it only gets the cargo flags and unstable features.
+export type KaniInvocation = 'verify' | 'playback';
+
+// Flags of `cargo kani` that are forwarded to cargo and accepted by every invocation
+const cargoFlags = ['features', 'all-features', 'no-default-features', 'target-dir'];
+
+/**
+ * Read the `kani` table of the package or workspace metadata
+ *
+ * @param metadata - the `[package.metadata]` or `[workspace.metadata]` table
+ * @returns the configuration, which is empty if the table is missing
+ */
+export function parseKaniConfig(metadata: unknown): KaniConfig {
+	const table = asTable(asTable(metadata).kani);
+	const harness: KaniConfig['harness'] = {};
+	for (const [harnessName, harnessTable] of Object.entries(asTable(table.harness))) {
+		harness[harnessName] = {
+			flags: parseFlags(asTable(harnessTable).flags),
+			unstable: parseUnstable(asTable(harnessTable).unstable),
+		};
+	}
+	return { flags: parseFlags(table.flags), unstable: parseUnstable(table.unstable), harness };
+}
+
+// Merge two configurations, the settings of the override win over the ones of the base
+export function mergeKaniConfigs(base: KaniConfig, override: KaniConfig): KaniConfig {
+	const harness = { ...base.harness };
+	for (const [harnessName, harnessConfig] of Object.entries(override.harness)) {
+		const baseHarness = harness[harnessName] ?? { flags: {}, unstable: {} };
+		harness[harnessName] = {
+			flags: { ...baseHarness.flags, ...harnessConfig.flags },
+			unstable: { ...baseHarness.unstable, ...harnessConfig.unstable },
+		};
+	}
+	return {
+		flags: { ...base.flags, ...override.flags },
+		unstable: { ...base.unstable, ...override.unstable },
+		harness,
+	};
+}
+
+/**
+ * Get the flags and unstable features that apply to a harness, where the settings of the harness
+ * override the ones of the package
+ *
+ * @param config - configuration of the package
+ * @param harnessName - name of the harness, if any
+ */
+export function getHarnessConfig(
+	config: KaniConfig,
+	harnessName?: string,
+): Omit<KaniConfig, 'harness'> {
+	// Harnesses are configured by their qualified name or by the end of it, i.e `module::harness`
+	const segments = harnessName?.split('::') ?? [];
+	const harnessKey = segments
+		.map((_, index) => segments.slice(index).join('::'))
+		.find((name) => name in config.harness);
+	const harnessConfig = harnessKey === undefined ? undefined : config.harness[harnessKey];
+	return {
+		flags: { ...config.flags, ...harnessConfig?.flags },
+		unstable: { ...config.unstable, ...harnessConfig?.unstable },
+	};
+}
+
+/**
+ * Convert the configuration into arguments of `cargo kani`. The settings of the harness override
+ * the ones of the package, and a flag set to false is left out.
+ *
+ * @param config - configuration of the package
+ * @param harnessName - harness that is run, if any
+ * @param invocation - kind of Kani invocation the arguments are for
+ * @returns the arguments, i.e `['--default-unwind', '4', '-Z', 'stubbing']`
+ */
+export function getKaniConfigArgs(
+	config: KaniConfig,
+	harnessName?: string,
+	invocation: KaniInvocation = 'verify',
+): string[] {
+	const { flags, unstable } = getHarnessConfig(config, harnessName);
+
+	const args: string[] = [];
+	for (const [flag, value] of Object.entries(flags)) {
+		if (invocation === 'playback' && !cargoFlags.includes(flag)) {
+			continue;
+		}
+		if (value === true) {
+			args.push(`--${flag}`);
+		} else if (Array.isArray(value)) {
+			args.push(...value.flatMap((item) => [`--${flag}`, String(item)]));
+		} else if (value !== false) {
+			args.push(`--${flag}`, String(value));
+		}
+	}
+	for (const [feature, enabled] of Object.entries(unstable)) {
+		if (enabled) {
+			args.push('-Z', feature);
+		}
+	}
+	return args;
+}
+
+/**
+ * Get the Kani configuration that applies to a source file, which is the one of its workspace
+ * overridden by the one of its package
+ *
+ * @param fileUri - source file in the package
+ * @returns the configuration, which is empty if the cargo metadata is not available
+ */
+export async function getKaniConfig(fileUri: vscode.Uri): Promise<KaniConfig> {
+	const fileTarget = await getFileTarget(getCrateRoot(fileUri), fileUri.fsPath);
+	if (fileTarget === undefined) {
+		return { flags: {}, unstable: {}, harness: {} };
+	}
+	return mergeKaniConfigs(
+		parseKaniConfig(fileTarget.workspace.metadata),
+		parseKaniConfig(fileTarget.package.metadata),
+	);
+}
+
+/**
+ * Get the arguments from the Kani configuration for running a harness
+ *
+ * @param fileUri - file that contains the harness
+ * @param harnessName - name of the harness, if known
+ * @param invocation - kind of Kani invocation the arguments are for
+ * @returns the arguments, which are empty if the package has no configuration
+ */
+export async function getHarnessConfigArgs(
+	fileUri: vscode.Uri,
+	harnessName: string | undefined,
+	invocation: KaniInvocation = 'verify',
+): Promise<string[]> {
+	return getKaniConfigArgs(await getKaniConfig(fileUri), harnessName, invocation);
+}
+
+function parseFlags(value: unknown): Record<string, KaniFlagValue> {
+	const flags: Record<string, KaniFlagValue> = {};
+	for (const [flag, flagValue] of Object.entries(asTable(value))) {
+		if (['boolean', 'string', 'number'].includes(typeof flagValue) || Array.isArray(flagValue)) {
+			flags[flag] = flagValue as KaniFlagValue;
+		} else {
+			console.warn(
+				`Ignoring the Kani flag ${flag}, its value must be a boolean, string, number or array`,
+			);
+		}
+	}
+	return flags;
+}
+
+function parseUnstable(value: unknown): Record<string, boolean> {
+	const unstable: Record<string, boolean> = {};
+	for (const [feature, enabled] of Object.entries(asTable(value))) {
+		unstable[feature] = Boolean(enabled);
+	}
+	return unstable;
+}
+
+function asTable(value: unknown): Record<string, unknown> {
+	return typeof value === 'object' && value && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: {};
+}
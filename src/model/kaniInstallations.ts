@@ -0,0 +1,147 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { compareVersions, parseKaniVersion } from './kaniCapabilities';
+
+const kaniBinaryName = process.platform === 'win32' ? 'cargo-kani.exe' : 'cargo-kani';
+
+/**
+ * A Kani installation found on the machine
+ *
+ * @param path - Absolute path of the `cargo-kani` binary
+ * @param source - Where the installation was found, i.e `PATH` or `~/.cargo/bin`
+ */
+export interface KaniInstallation {
+	path: string;
+	source: string;
+}
+
+/**
+ * Find the `cargo-kani` binaries installed on the machine. The binary configured with
+ * `Kani.executablePath` comes first, followed by the ones in the search paths, PATH,
+ * `~/.cargo/bin` and `~/.kani`.
+ *
+ * @returns installations in order of precedence, without duplicates
+ */
+export function findKaniInstallations(): KaniInstallation[] {
+	const candidates: KaniInstallation[] = [];
+	const addCandidate = (binaryPath: string, source: string): void => {
+		candidates.push({ path: path.resolve(binaryPath), source });
+	};
+
+	const configuredPath = getConfiguredExecutablePath();
+	if (configuredPath !== undefined) {
+		addCandidate(configuredPath, 'Kani.executablePath');
+	}
+
+	// Project-local builds, i.e pinned versions checked out next to the sources
+	const searchPaths: string[] = vscode.workspace
+		.getConfiguration('Kani')
+		.get('executableSearchPaths', []);
+	for (const searchPath of searchPaths) {
+		for (const directory of resolveWorkspacePath(searchPath)) {
+			addCandidate(path.join(directory, kaniBinaryName), 'workspace');
+		}
+	}
+
+	for (const directory of (process.env.PATH ?? '').split(path.delimiter)) {
+		if (directory !== '') {
+			addCandidate(path.join(directory, kaniBinaryName), 'PATH');
+		}
+	}
+
+	addCandidate(path.join(os.homedir(), '.cargo', 'bin', kaniBinaryName), '~/.cargo/bin');
+
+	// `cargo kani setup` unpacks a bundle per Kani version under ~/.kani
+	const kaniHome = path.join(os.homedir(), '.kani');
+	if (fs.existsSync(kaniHome)) {
+		for (const bundle of sortBundlesByVersion(fs.readdirSync(kaniHome))) {
+			addCandidate(path.join(kaniHome, bundle, 'bin', kaniBinaryName), '~/.kani');
+		}
+	}
+
+	const seen = new Set<string>();
+	return candidates.filter((candidate) => {
+		if (seen.has(candidate.path) || !isExecutableFile(candidate.path)) {
+			return false;
+		}
+		seen.add(candidate.path);
+		return true;
+	});
+}
+
+/**
+ * Order the bundles unpacked under `~/.kani`, i.e `kani-0.40.0`, from the newest version to the
+ * oldest. Bundles without a version in their name come last.
+ *
+ * @param bundles - names of the bundle directories
+ * @returns the names, sorted
+ */
+export function sortBundlesByVersion(bundles: string[]): string[] {
+	return bundles
+		.map((bundle) => ({ bundle, version: parseKaniVersion(bundle) }))
+		.sort((a, b) => {
+			if (a.version === undefined || b.version === undefined) {
+				return Number(a.version === undefined) - Number(b.version === undefined);
+			}
+			return compareVersions(b.version, a.version);
+		})
+		.map(({ bundle }) => bundle);
+}
+
+/**
+ * Get the path of the `cargo-kani` binary the extension should use
+ *
+ * @returns the configured binary if it is valid, else the first installation that was found
+ */
+export function resolveKaniPath(): string {
+	const configuredPath = getConfiguredExecutablePath();
+	if (configuredPath !== undefined && !isExecutableFile(configuredPath)) {
+		throw new Error(`Kani.executablePath is set to ${configuredPath}, which is not an executable.`);
+	}
+
+	const installation = findKaniInstallations().at(0);
+	if (installation === undefined) {
+		throw new Error(
+			'The Kani executable was not found in PATH. Please install it using the instructions at https://model-checking.github.io/kani/install-guide.html and/or make sure it is in your PATH, or set Kani.executablePath.',
+		);
+	}
+	return installation.path;
+}
+
+// Read `Kani.executablePath`, relative paths are resolved against the first workspace folder
+function getConfiguredExecutablePath(): string | undefined {
+	const configuredPath: string = vscode.workspace
+		.getConfiguration('Kani')
+		.get('executablePath', '')
+		.trim();
+	if (configuredPath === '') {
+		return undefined;
+	}
+	return resolveWorkspacePath(configuredPath).at(0);
+}
+
+// Expand `~` and resolve a relative path against every workspace folder
+function resolveWorkspacePath(configuredPath: string): string[] {
+	const expandedPath = configuredPath.replace(/^~(?=$|[\\/])/, os.homedir());
+	if (path.isAbsolute(expandedPath)) {
+		return [expandedPath];
+	}
+	return (vscode.workspace.workspaceFolders ?? []).map((folder) =>
+		path.resolve(folder.uri.fsPath, expandedPath),
+	);
+}
+
+function isExecutableFile(filePath: string): boolean {
+	try {
+		fs.accessSync(filePath, fs.constants.X_OK);
+		return fs.statSync(filePath).isFile();
+	} catch (error) {
+		return false;
+	}
+}
@@ -1,8 +1,18 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
-import { KaniResponse } from '../constants';
+import {
+	CheckResult,
+	CoverageEntry,
+	HarnessResult,
+	KaniOutput,
+	SourceLocation,
+	VerificationStatus,
+	VerificationSummary,
+	failureStatuses,
+	isFailedCheck,
+} from './kaniResult';
 
-type ErrorName = 'KaniCompilationError' | 'NoHarnessesError';
+type ErrorName = 'KaniCompilationError' | 'NoHarnessesError' | 'CancellationError' | 'TimeoutError';
 
 export class KaniResponseError extends Error {
 	name: ErrorName;
@@ -17,53 +27,6 @@ export class KaniResponseError extends Error {
 	}
 }
 
-/**
- * Metadata about the property that needs to be processed before presenting to the UI
- *
- * @param checkNumber - Index of the property
- * @param propertyName - Name of property
- * @param status - verification status (i.e success|failure)
- * @param description - Description of failure from Kani
- * @param location - Location information from Kani on the failed property
- */
-class CheckInstance {
-	checkNumber: number;
-	propertyName: string;
-	status: string;
-	description: string;
-	location: string;
-
-	constructor(
-		checkNumber: number,
-		propertyName: string,
-		status: string,
-		description: string,
-		location: string,
-	) {
-		this.checkNumber = checkNumber;
-		this.propertyName = propertyName;
-		this.status = status;
-		this.description = description;
-		this.location = location;
-	}
-
-	/**
-	 * Structured Response for the Diff Output
-	 */
-	public createFailureMessage(): string {
-		const responseMessage: string = `Property - ${this.propertyName}\nMessage - ${this.description}\nStatus - ${this.status}\nLocation - ${this.location}\n`;
-		return responseMessage;
-	}
-
-	/**
-	 * Output text for the message
-	 */
-	public createDisplayMessage(): string {
-		const responseMessage: string = `${this.description}`;
-		return responseMessage;
-	}
-}
-
 // Check if stderr and std out contain the error strings or the strings indicating successful compilation and verification
 export function checkOutputForError(outString: string, errString: string): any {
 	if (errString.includes('Finished dev') && outString.includes('VERIFICATION:-')) {
@@ -91,129 +54,307 @@ export function checkOutputForError(outString: string, errString: string): any {
 	return false;
 }
 
-// Expose output parser to other modules
-export function responseParserInterface(responseString: string): KaniResponse {
-	return responseParser(responseString);
+/**
+ * Parse the results file written by Kani's machine-readable output format.
+ *
+ * The file contains one entry per harness verified by the execution under `harnesses`. Each entry
+ * has the `harness` name, its `status`, `verification_time` and a list of `checks`, where each check
+ * has a `property` id, `property_class`, `status`, `description` and a `location` made of `file`,
+ * `line`, `column` and `function`.
+ *
+ * @param content - raw contents of the JSON results file
+ * @returns the verification result of every harness in the file
+ */
+export function parseKaniJsonOutput(content: string): HarnessResult[] {
+	const json = JSON.parse(content);
+	const harnesses: any[] = Array.isArray(json.harnesses) ? json.harnesses : [];
+
+	return harnesses.map((harness: any) => {
+		const checks: CheckResult[] = (harness.checks ?? []).map((check: any, index: number) => ({
+			checkNumber: index + 1,
+			propertyId: check.property ?? '',
+			propertyClass: check.property_class ?? getPropertyClass(check.property ?? ''),
+			status: check.status ?? '',
+			description: check.description ?? '',
+			location: parseJsonLocation(check.location),
+		}));
+		return {
+			harness: harness.harness ?? '',
+			status: parseVerificationStatus(harness.status, checks),
+			checks: checks,
+			summary: summarizeChecks(checks),
+			verificationTime: harness.verification_time,
+		};
+	});
+}
+
+function parseJsonLocation(location: any): SourceLocation | undefined {
+	if (!location?.file) {
+		return undefined;
+	}
+	return {
+		file: location.file,
+		line: Number(location.line),
+		column: location.column === undefined ? undefined : Number(location.column),
+		function: location.function,
+	};
 }
 
-function responseParser(responseString: string): KaniResponse {
-	const splittedResponse: string[] = responseString.split('\n\n');
-	const responseObject: KaniResponse = getResultsSubArray(splittedResponse);
-	return responseObject;
+function parseVerificationStatus(status: any, checks: CheckResult[]): VerificationStatus {
+	if (status === 'SUCCESSFUL' || status === 'SUCCESS') {
+		return 'SUCCESSFUL';
+	} else if (status === 'FAILED' || status === 'FAILURE') {
+		return 'FAILED';
+	}
+	// Derive the status from the checks if the output did not include it, counting failures the
+	// same way as the summary
+	if (checks.length === 0) {
+		return 'UNKNOWN';
+	}
+	return summarizeChecks(checks).failed > 0 ? 'FAILED' : 'SUCCESSFUL';
 }
 
-// Search for specific results and return the diff messages
-function getResultsSubArray(splittedResponse: string[]): KaniResponse {
-	// Search for sub array containing only the results
-	// and the summary sub array
-	const a: any = splittedResponse.find((element) => element.includes('RESULTS'));
-	const b: any = splittedResponse.find((element) => element.includes('SUMMARY'));
+/**
+ * Parse the regular (human readable) output printed by Kani. This is used when the installed
+ * Kani does not support the machine-readable output format.
+ *
+ * @param stdout - Kani's standard output
+ * @returns the harness results, coverage results and report path found in the output
+ */
+export function parseKaniTextOutput(stdout: string): KaniOutput {
+	const lines: string[] = stdout.split(/\r?\n/);
+	const harnesses: HarnessResult[] = [];
+	const coverage: CoverageEntry[] = [];
+	const harnessCoverage: Record<string, CoverageEntry[]> = {};
+	let reportPath: string | undefined;
 
-	const checkResponse: number = splittedResponse.indexOf(a);
-	const summaryResponse: number = splittedResponse.indexOf(b);
+	let currentHarness: HarnessResult | undefined;
+	let currentCheck: CheckResult | undefined;
+	let inCoverageResults = false;
 
-	// Get a subarray of the checks together
-	const checksArray: Array<string> = [];
-	for (let i = checkResponse; i < summaryResponse; i++) {
-		checksArray.push(splittedResponse[i]);
-	}
+	// Kani prints the results of each harness after a `Checking harness <name>...` header.
+	// Older versions do not print the header when there is a single harness.
+	const startHarness = (name: string): HarnessResult => {
+		const harness: HarnessResult = createEmptyHarnessResult(name);
+		harnesses.push(harness);
+		return harness;
+	};
 
-	// Return the final diff message
-	return captureChecksArray(checksArray);
-}
+	for (const rawLine of lines) {
+		const line = rawLine.trim();
 
-function captureChecksArray(checksArray: Array<string>): KaniResponse {
-	cleanChecksArray(checksArray);
-	const responseMessage: KaniResponse = parseChecksArray(checksArray);
-	return responseMessage;
-}
+		const harnessName = parseHarnessHeader(line);
+		if (harnessName !== undefined) {
+			currentHarness = startHarness(harnessName);
+			currentCheck = undefined;
+			inCoverageResults = false;
+			continue;
+		}
 
-function cleanChecksArray(checksArray: Array<string>): Array<string> {
-	if (checksArray.length > 0 && checksArray[0].includes('RESULTS:\n')) {
-		const cleanFirstCheck: string = checksArray[0].replace('RESULTS:\n', '');
-		checksArray[0] = cleanFirstCheck;
-	}
-	return checksArray;
-}
-
-function parseChecksArray(checksArray: Array<string>): KaniResponse {
-	let failureResponseMessage = ``;
-	let failureDisplayMessage = ``;
-	const failure_statuses = ['FAILURE', 'UNDETERMINED', 'UNREACHABLE', 'UNSATISFIABLE'];
-	const success_statuses = ['SATISFIED', 'SUCCESS'];
-
-	for (let i = 0; i < checksArray.length; i++) {
-		const checkInstance: string[] = checksArray[i].split('\n');
-		const checkInstanceObject: CheckInstance = convertChecktoObject(checkInstance);
-		if (failure_statuses.includes(checkInstanceObject.status)) {
-			failureResponseMessage += checkInstanceObject.createFailureMessage() + '\n';
-			failureDisplayMessage = checkInstanceObject.createDisplayMessage() + '\n';
-		} else if (!success_statuses.includes(checkInstanceObject.status)) {
-			failureResponseMessage +=
-				checkInstanceObject.createFailureMessage() +
-				'WARNING: unknown status returned from Kani.\n\n';
-			failureDisplayMessage = checkInstanceObject.createDisplayMessage() + '\n';
+		const checkMatch = line.match(/^Check (\d+): (.*)$/);
+		if (checkMatch) {
+			currentHarness = currentHarness ?? startHarness('');
+			currentCheck = {
+				checkNumber: parseInt(checkMatch[1]),
+				propertyId: checkMatch[2],
+				propertyClass: getPropertyClass(checkMatch[2]),
+				status: '',
+				description: '',
+			};
+			currentHarness.checks.push(currentCheck);
+			continue;
 		}
-	}
-	const failureResponse: KaniResponse = {
-		failedProperty: failureResponseMessage,
-		failedMessages: failureDisplayMessage,
-	};
 
-	return failureResponse;
-}
-
-// Convert failed property into a process object
-function convertChecktoObject(checkInstance: Array<string>): CheckInstance {
-	let checkNumber: number;
-	let propertyName: string;
-	let status: string;
-	let description: string;
-	let location: string;
-
-	for (let i = 0; i < checkInstance.length; i++) {
-		if (i === 0) {
-			const property: string[] = checkInstance[i].split(': ');
-			checkNumber = parseInt(property[0].replace(/^\D+/g, ''));
-			propertyName = property[1];
-		} else {
-			const responseVariable: Variable = splitString(checkInstance[i]);
-			switch (responseVariable.field) {
+		const fieldMatch = line.match(/^- (Status|Description|Location): (.*)$/);
+		if (fieldMatch && currentCheck) {
+			const value = fieldMatch[2].trim();
+			switch (fieldMatch[1]) {
 				case 'Status':
-					status = responseVariable.message;
+					currentCheck.status = value;
 					break;
 				case 'Description':
-					description = responseVariable.message;
+					currentCheck.description = value.replace(/^"(.*)"$/, '$1');
 					break;
 				case 'Location':
-					location = responseVariable.message;
-					break;
-				default:
+					currentCheck.location = parseTextLocation(value);
 					break;
 			}
+			continue;
+		}
+
+		const verificationMatch = line.match(/^VERIFICATION:- (SUCCESSFUL|FAILED)/);
+		if (verificationMatch) {
+			currentHarness = currentHarness ?? startHarness('');
+			currentHarness.status = verificationMatch[1] as VerificationStatus;
+			currentCheck = undefined;
+			continue;
+		}
+
+		const timeMatch = line.match(/^Verification Time: ([\d.]+)s/);
+		if (timeMatch && currentHarness) {
+			currentHarness.verificationTime = parseFloat(timeMatch[1]);
+			continue;
+		}
+
+		if (line.startsWith('Report written to: ')) {
+			reportPath = line.substring('Report written to: '.length);
+			continue;
+		}
+
+		if (line === 'Coverage Results:') {
+			inCoverageResults = true;
+			continue;
 		}
+
+		if (inCoverageResults) {
+			// The final summary of Kani marks the end of the coverage results
+			if (line.startsWith('Complete - ')) {
+				inCoverageResults = false;
+				continue;
+			}
+			const coverageEntry = parseCoverageLine(line);
+			if (coverageEntry) {
+				coverage.push(coverageEntry);
+				// Kani prints the coverage of each harness after its verification result
+				if (currentHarness) {
+					const entries = harnessCoverage[currentHarness.harness] ?? [];
+					entries.push(coverageEntry);
+					harnessCoverage[currentHarness.harness] = entries;
+				}
+			}
+		}
+	}
+
+	for (const harness of harnesses) {
+		harness.summary = summarizeChecks(harness.checks);
 	}
 
-	const checkInstanceObject: CheckInstance = new CheckInstance(
-		checkNumber!,
-		propertyName!,
-		status!,
-		description!,
-		location!,
-	);
-	return checkInstanceObject;
+	return { harnesses, coverage, harnessCoverage, reportPath };
 }
 
-// Store metadata
-interface Variable {
-	field: string;
-	message: string;
+// Return the name of the harness if the line is the `Checking harness <name>...` header
+export function parseHarnessHeader(line: string): string | undefined {
+	const harnessMatch = line.trim().match(/^Checking harness (.+?)\.*$/);
+	return harnessMatch ? harnessMatch[1] : undefined;
+}
+
+// Return the name of the concrete test if the line is the message Kani prints when it writes the
+// test of a counterexample to the sources
+export function parsePlaybackTestName(line: string): string | undefined {
+	const testMatch = line.match(/concrete playback unit test `(kani_concrete_playback_\w+)`/);
+	return testMatch ? testMatch[1] : undefined;
+}
+
+// Result used for a harness when Kani did not report anything about it
+export function createEmptyHarnessResult(harnessName: string): HarnessResult {
+	return {
+		harness: harnessName,
+		status: 'UNKNOWN',
+		checks: [],
+		summary: summarizeChecks([]),
+	};
+}
+
+// Convert a line of Kani's coverage results `file, line, STATUS` into an entry
+function parseCoverageLine(line: string): CoverageEntry | undefined {
+	const parts = line.split(', ');
+	if (parts.length !== 3) {
+		return undefined;
+	}
+	const [filePath, lineNumberStr, coverageStatus] = parts;
+	const lineNumber = parseInt(lineNumberStr.trim(), 10);
+	if (isNaN(lineNumber) || !['FULL', 'PARTIAL', 'NONE'].includes(coverageStatus.trim())) {
+		return undefined;
+	}
+	return { filePath, lineNumber, coverageStatus: coverageStatus.trim() };
+}
+
+// Parse locations printed as `src/lib.rs:5:9 in function harness`
+function parseTextLocation(location: string): SourceLocation | undefined {
+	const match = location.match(/^(.+?):(\d+):(\d+)(?: in function (.+))?$/);
+	if (!match) {
+		return undefined;
+	}
+	return {
+		file: match[1],
+		line: parseInt(match[2]),
+		column: parseInt(match[3]),
+		function: match[4],
+	};
+}
+
+// The property class is the second to last component of the property id, i.e `harness.assertion.1`
+function getPropertyClass(propertyId: string): string {
+	const parts = propertyId.split('.');
+	return parts.length >= 2 ? parts[parts.length - 2] : '';
+}
+
+function summarizeChecks(checks: CheckResult[]): VerificationSummary {
+	return {
+		total: checks.length,
+		failed: checks.filter((check) => check.status === 'FAILURE').length,
+		unreachable: checks.filter((check) => check.status === 'UNREACHABLE').length,
+		undetermined: checks.filter((check) => check.status === 'UNDETERMINED').length,
+	};
+}
+
+// Render a location the same way Kani prints it
+export function formatLocation(location?: SourceLocation): string {
+	if (location === undefined) {
+		return 'Unknown location';
+	}
+	const column = location.column === undefined ? '' : `:${location.column}`;
+	const functionName = location.function === undefined ? '' : ` in function ${location.function}`;
+	return `${location.file}:${location.line}${column}${functionName}`;
+}
+
+/**
+ * Structured Response for the Diff Output
+ */
+export function createFailureMessage(check: CheckResult): string {
+	let responseMessage: string = `Property - ${check.propertyId}\nMessage - ${
+		check.description
+	}\nStatus - ${check.status}\nLocation - ${formatLocation(check.location)}\n`;
+	if (!failureStatuses.includes(check.status)) {
+		responseMessage += 'WARNING: unknown status returned from Kani.\n';
+	}
+	return responseMessage;
+}
+
+// Join the failure messages of every failed check of the harness
+export function createFailedChecksMessage(result: HarnessResult): string {
+	return result.checks
+		.filter(isFailedCheck)
+		.map((check) => createFailureMessage(check) + '\n')
+		.join('');
+}
+
+/**
+ * Render the failed checks of the harness as a markdown table of their property class,
+ * description, status and location
+ *
+ * @param result - verification result of the harness
+ * @param getLink - link that opens the location of a check, if it can be opened
+ * @returns the markdown table, with one row per failed check
+ */
+export function createFailedChecksTable(
+	result: HarnessResult,
+	getLink: (check: CheckResult) => string | undefined,
+): string {
+	const rows = result.checks.filter(isFailedCheck).map((check) => {
+		const location = escapeTableCell(formatLocation(check.location));
+		const link = getLink(check);
+		const cells = [check.propertyClass, check.description, check.status].map(escapeTableCell);
+		return `| ${cells.join(' | ')} | ${link === undefined ? location : `[${location}](${link})`} |`;
+	});
+	return [
+		'| Property | Description | Status | Location |',
+		'| --- | --- | --- | --- |',
+		...rows,
+	].join('\n');
 }
 
-// Return {field: message} from [..field: message]
-function splitString(stringliteral: string): Variable {
-	stringliteral = stringliteral.trim();
-	const field: string = stringliteral.slice(0, stringliteral.indexOf(':')).split(' ')[1];
-	const message: string = stringliteral.slice(stringliteral.indexOf(':') + 1).trim();
-	return { field, message };
+// Keep the text of a cell from ending the cell or the row
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
 }
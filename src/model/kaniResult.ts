@@ -0,0 +1,125 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+
+// Statuses reported by Kani for a property
+export type CheckStatus =
+	| 'SUCCESS'
+	| 'FAILURE'
+	| 'UNREACHABLE'
+	| 'UNDETERMINED'
+	| 'SATISFIED'
+	| 'UNSATISFIABLE';
+
+// Overall verification status of a harness
+export type VerificationStatus = 'SUCCESSFUL' | 'FAILED' | 'UNKNOWN';
+
+export const failureStatuses: string[] = [
+	'FAILURE',
+	'UNDETERMINED',
+	'UNREACHABLE',
+	'UNSATISFIABLE',
+];
+export const successStatuses: string[] = ['SATISFIED', 'SUCCESS'];
+
+export interface SourceLocation {
+	file: string;
+	line: number;
+	column?: number;
+	function?: string;
+}
+
+/**
+ * Result of a single property checked by Kani
+ *
+ * @param checkNumber - Index of the property in Kani's results
+ * @param propertyId - Identifier of the property. Example - `harness.assertion.1`
+ * @param propertyClass - Class of the property. Example - `assertion`, `arithmetic_overflow`
+ * @param status - Check status, kept as a string since Kani may report statuses unknown to the extension
+ * @param description - Description of the property from Kani
+ * @param location - Source location of the property, if Kani reported one
+ */
+export interface CheckResult {
+	checkNumber: number;
+	propertyId: string;
+	propertyClass: string;
+	status: CheckStatus | string;
+	description: string;
+	location?: SourceLocation;
+}
+
+export interface VerificationSummary {
+	total: number;
+	failed: number;
+	unreachable: number;
+	undetermined: number;
+}
+
+/**
+ * Verification result of one harness
+ *
+ * @param harness - Name of the harness as reported by Kani
+ * @param status - Overall verification status
+ * @param checks - Every property checked for the harness
+ * @param summary - Counts of the checks by outcome
+ * @param verificationTime - Verification time in seconds, if Kani reported it
+ */
+export interface HarnessResult {
+	harness: string;
+	status: VerificationStatus;
+	checks: CheckResult[];
+	summary: VerificationSummary;
+	verificationTime?: number;
+}
+
+// Interface for storing the coverage status of a line reported by Kani
+export interface CoverageEntry {
+	filePath: string;
+	lineNumber: number;
+	coverageStatus: string;
+}
+
+/**
+ * Everything the extension extracts from one execution of Kani
+ *
+ * @param harnesses - Verification result of every harness run by the execution
+ * @param coverage - Line coverage results, if the execution was run with `--coverage`
+ * @param harnessCoverage - Line coverage results of each harness, keyed by the name of the harness
+ * @param reportPath - Path to the generated report, if the execution was run with `--visualize`
+ */
+export interface KaniOutput {
+	harnesses: HarnessResult[];
+	coverage: CoverageEntry[];
+	harnessCoverage?: Record<string, CoverageEntry[]>;
+	reportPath?: string;
+}
+
+/**
+ * Outcome of one execution of Kani
+ *
+ * @param statusCode - 0 if verification succeeded, 1 if it failed, 2 if Kani reported an error on stderr
+ * @param output - Parsed results of the execution
+ */
+export interface KaniExecution {
+	statusCode: number;
+	output: KaniOutput;
+}
+
+/**
+ * Outcome of verifying a single harness
+ *
+ * @param statusCode - Same as `KaniExecution`, or -1 if Kani could not be run on the harness
+ * @param result - Parsed verification result of the harness
+ * @param errorMessage - Reason Kani could not complete the verification, if it should be shown to the user
+ * @param coverage - Line coverage of the harness, if it was verified with `--coverage`
+ */
+export interface HarnessVerification {
+	statusCode: number;
+	result: HarnessResult;
+	errorMessage?: string;
+	coverage?: CoverageEntry[];
+}
+
+// Return true if the check did not pass
+export function isFailedCheck(check: CheckResult): boolean {
+	return !successStatuses.includes(check.status);
+}
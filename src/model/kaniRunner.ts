@@ -1,25 +1,55 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
-import { execFile } from 'child_process';
+import { ChildProcess, execFile, spawn } from 'child_process';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 import * as vscode from 'vscode';
 
-import { KaniResponse } from '../constants';
+import { KaniArguments } from '../constants';
 import GlobalConfig from '../globalConfig';
+import OutputManager from '../ui/outputManager';
 import {
 	CommandArgs,
 	getRootDir,
 	getTimeBasedUniqueId,
 	showErrorWithReportIssueButton,
 	splitCommand,
+	stripAnsi,
 } from '../utils';
+import {
+	KaniVersion,
+	compareVersions,
+	formatVersion,
+	getKaniCapabilities,
+	parseKaniVersion,
+	supportsFeature,
+} from './kaniCapabilities';
 import {
 	KaniResponseError,
 	checkOutputForError,
-	responseParserInterface,
+	parseKaniJsonOutput,
+	parseKaniTextOutput,
 } from './kaniOutputParser';
+import { KaniExecution, KaniOutput } from './kaniResult';
+
+/**
+ * Options controlling a single Kani execution
+ *
+ * @param token - Cancellation token from the test run, used to kill the process when the user stops the run
+ * @param onOutput - Called with every line printed by Kani (stdout and stderr) as soon as it is received
+ * @param timeoutSeconds - Kill the process if it runs longer than this. No limit if undefined or 0
+ * @param cwd - Crate root of the harness that Kani runs in. The first workspace folder if undefined
+ * @param extraArgs - Arguments passed to Kani before the arguments of the command, i.e the target of the harness
+ */
+export interface KaniRunOptions {
+	token?: vscode.CancellationToken;
+	onOutput?: (line: string) => void;
+	timeoutSeconds?: number;
+	cwd?: string;
+	extraArgs?: string[];
+}
 
 // Store the output from process into a object with this type
 interface CommandOutput {
@@ -29,44 +59,57 @@ interface CommandOutput {
 	error: any;
 }
 
+// Oldest version of Kani the extension works with
+const minimumKaniVersion: KaniVersion = { major: 0, minor: 29, patch: 0 };
+
 // Displays the version of kani being used to the user as a status bar icon
 export async function getKaniVersion(pathKani: string): Promise<void> {
-	try {
-		execFile(pathKani, ['--version'], (error, stdout, stderr) => {
-			if (error) {
-				console.error(`Error: ${error}`);
-				return;
-			}
+	const versionWord = await readKaniVersion(pathKani);
+	if (versionWord === undefined) {
+		return;
+	}
+	const version = parseKaniVersion(versionWord)!;
+	GlobalConfig.getInstance().setKaniVersion(versionWord);
 
-			if (stdout) {
-				// Split the stdout by whitespace to separate words
-				const words = stdout.split(/\s+/);
-				// Find the word that contains the version number
-				const versionWord = words.find((word) => /\d+(\.\d+){1,}/.test(word))!;
-				const versionNum: number = parseFloat(versionWord);
+	console.log(`Kani version is ${formatVersion(version)}`);
 
-				console.log(`Kani version is ${versionNum}`);
+	if (compareVersions(version, minimumKaniVersion) < 0) {
+		vscode.window.showWarningMessage(
+			'Please install Kani 0.29 or later using the instructions at https://model-checking.github.io/kani/install-guide.html and/or make sure it is in your PATH.',
+		);
+	}
 
-				if (versionNum < 0.29) {
-					vscode.window.showWarningMessage(
-						'Please install Kani 0.29 or later using the instructions at https://model-checking.github.io/kani/install-guide.html and/or make sure it is in your PATH.',
-					);
-				}
+	const versionMessage = `$(gear~spin) Kani ${versionWord} being used to verify`;
 
-				const versionMessage = `$(gear~spin) Kani ${versionWord} being used to verify`;
+	vscode.window.setStatusBarMessage(versionMessage, 6000);
+}
 
-				vscode.window.setStatusBarMessage(versionMessage, 6000);
+/**
+ * Run the binary with `--version` to find which version of Kani it is
+ *
+ * @param pathKani - path of the cargo-kani binary
+ * @returns the version number, i.e `0.40.0`, or undefined if it could not be determined
+ */
+export function readKaniVersion(pathKani: string): Promise<string | undefined> {
+	return new Promise((resolve) => {
+		execFile(pathKani, ['--version'], (error, stdout, stderr) => {
+			if (error) {
+				console.error(`Error: ${error}`);
+				resolve(undefined);
 				return;
 			}
 
-			console.log(`stdout: ${stdout}`);
-			console.error(`stderr: ${stderr}`);
+			// Split the stdout by whitespace to separate words
+			const words = stdout.split(/\s+/);
+			// Find the word that contains the version number
+			const versionWord = words.find((word) => /\d+(\.\d+){1,}/.test(word));
+			if (versionWord === undefined) {
+				console.log(`stdout: ${stdout}`);
+				console.error(`stderr: ${stderr}`);
+			}
+			resolve(versionWord);
 		});
-	} catch (error) {
-		// Ignore command error
-		return;
-	}
-	return;
+	});
 }
 
 /**
@@ -112,14 +155,17 @@ export function getKaniPath(kaniCommand: string): Promise<string> {
  * Function that runs `cargo kani [args]`
  *
  * @param kaniCommand - Full sanitized command created by kaniCommandCreate module
- * @returns the path for the binary cargo-kani (either the installed binary or the development one)
+ * @param cargoKaniMode - Whether it's running in `cargo-kani` or not
+ * @param runOptions - cancellation token and live output callback for the execution
+ * @returns the status code of the execution along with its parsed results, or false if the command is not a Kani command
  */
 export async function runKaniCommand(
 	harnessCommand: string,
 	cargoKaniMode: boolean = false,
-): Promise<any> {
+	runOptions: KaniRunOptions = {},
+): Promise<KaniExecution | false> {
 	// Get the full resolved path for the root directory of the crate
-	const directory = path.resolve(getRootDir());
+	const directory = path.resolve(runOptions.cwd ?? getRootDir());
 	const commandSplit: CommandArgs = splitCommand(harnessCommand);
 
 	// Get cargo command and args for the command to be executed
@@ -134,61 +180,87 @@ export async function runKaniCommand(
 			cwd: directory,
 		};
 
+		// Ask Kani for the machine-readable results if the installed version supports them
+		const capabilities = await getKaniCapabilities(kaniBinaryPath);
+		const jsonPath = supportsFeature(capabilities, 'exportJson')
+			? createResultsFilePath()
+			: undefined;
+		const jsonArgs = jsonPath ? getJsonOutputArgs(jsonPath) : [];
+
 		try {
-			const executionResult = await executeKaniProcess(
+			const executionResult: KaniExecution = await executeKaniProcess(
 				kaniBinaryPath,
-				args,
+				[...jsonArgs, ...(runOptions.extraArgs ?? []), ...args],
 				options,
 				cargoKaniMode,
+				runOptions,
+				jsonPath,
 			);
 			return executionResult;
 		} catch (error: any) {
+			// Stopping the run is requested by the user or by the timeout, so it should not be reported
+			// as a bug. Harness filters that match nothing are handled by the callers, which may fall
+			// back to other names.
+			if (
+				error instanceof KaniResponseError &&
+				['CancellationError', 'TimeoutError', 'NoHarnessesError'].includes(error.name)
+			) {
+				throw error;
+			}
 			showErrorWithReportIssueButton(`Could not run Kani on harness: ${error}`);
 			throw error;
+		} finally {
+			if (jsonPath) {
+				fs.rmSync(jsonPath, { force: true });
+			}
 		}
 	} else {
 		return false;
 	}
 }
 
+// Arguments that make Kani write its results to the given file in the machine-readable format
+export function getJsonOutputArgs(jsonPath: string): string[] {
+	return [
+		KaniArguments.unstableFeatureFlag,
+		KaniArguments.unstableOptions,
+		KaniArguments.exportJsonFlag,
+		jsonPath,
+	];
+}
+
+// Unique path in the temporary directory where Kani writes the results of one execution
+export function createResultsFilePath(): string {
+	const uniqueId = `${getTimeBasedUniqueId()}-${Math.random().toString(36).slice(2)}`;
+	return path.join(os.tmpdir(), `kani-results-${uniqueId}.json`);
+}
+
 /**
- * Function that returns the diff message to be displayed
+ * Build the result model from an execution of Kani. The machine-readable results are used if they
+ * were written and contain harnesses, and the text output is parsed otherwise.
  *
- * @param command - Full sanitized command created by kaniCommandCreate module
- * @returns the path for the binary cargo-kani (either the installed binary or the development one)
+ * @param stdout - Kani's standard output
+ * @param jsonPath - Path of the machine-readable results file, if it was requested
+ * @returns the parsed results of the execution
  */
-export async function createFailedDiffMessage(command: string): Promise<KaniResponse> {
-	// Root dir of the crate and the command and args to be executed
-	const directory = path.resolve(getRootDir());
-	const commandSplit: CommandArgs = splitCommand(command);
-
-	// Get the args for the kani command to run
-	const args = commandSplit.args;
-
-	// Check the command running and execute that with the full path and safe options
-	if (commandSplit.commandPath == 'cargo' || commandSplit.commandPath == 'cargo kani') {
-		const globalConfig = GlobalConfig.getInstance();
-		const kaniBinaryPath = globalConfig.getFilePath();
-		const options = {
-			shell: false,
-			cwd: directory,
-		};
+export function parseVerificationOutput(stdout: string, jsonPath?: string): KaniOutput {
+	const kaniOutput: KaniOutput = parseKaniTextOutput(stdout);
+	if (jsonPath === undefined || !fs.existsSync(jsonPath)) {
+		return kaniOutput;
+	}
 
-		return new Promise((resolve, _reject) => {
-			execFile(kaniBinaryPath, args, options, (_error, stdout, _stderr) => {
-				if (stdout) {
-					const responseObject: KaniResponse = responseParserInterface(stdout);
-					resolve(responseObject);
-				}
-			});
-		});
-	} else {
-		// Error Case
-		showErrorWithReportIssueButton('Kani executable crashed while parsing error message');
-		return new Promise((resolve, _reject) => {
-			resolve({ failedProperty: 'error', failedMessages: 'error' });
-		});
+	try {
+		// A file without harnesses may have a layout the parser does not know
+		const harnesses = parseKaniJsonOutput(fs.readFileSync(jsonPath, 'utf-8'));
+		if (harnesses.length > 0) {
+			kaniOutput.harnesses = harnesses;
+		}
+	} catch (error) {
+		console.error(`Could not parse Kani results from ${jsonPath}: ${error}`);
+	} finally {
+		fs.rmSync(jsonPath, { force: true });
 	}
+	return kaniOutput;
 }
 
 /**
@@ -198,20 +270,77 @@ export async function createFailedDiffMessage(command: string): Promise<KaniResp
  * @param args - full arg list to provide to the subprocess
  * @param options - options to pass to the cargo-kani command i.e shell, working directory
  * @param cargoKaniMode - Whether it's running in `cargo-kani` or not
- * @returns the path for the binary cargo-kani (either the installed binary or the development one)
+ * @param runOptions - cancellation token and live output callback for the execution
+ * @param jsonPath - path of the machine-readable results file, if it was requested
+ * @returns the status code of the execution along with its parsed results
  */
 async function executeKaniProcess(
 	kaniBinaryPath: string,
 	args: string[],
 	options: any,
 	cargoKaniMode: boolean,
-): Promise<any> {
+	runOptions: KaniRunOptions = {},
+	jsonPath?: string,
+): Promise<KaniExecution> {
+	const { token, onOutput, timeoutSeconds } = runOptions;
+
 	return new Promise((resolve, reject) => {
-		execFile(kaniBinaryPath, args, options, async (error, stdout, stderr) => {
+		if (token?.isCancellationRequested) {
+			reject(createCancellationError(args));
+			return;
+		}
+
+		// On POSIX, run the process in its own process group so that cargo, kani-compiler and cbmc
+		// can all be terminated together.
+		// Colors are forced so that the streamed output looks the same as in a terminal.
+		const processOptions = {
+			...options,
+			detached: process.platform !== 'win32',
+			env: { ...process.env, ...options.env, CARGO_TERM_COLOR: 'always' },
+		};
+
+		const child = spawn(kaniBinaryPath, args, processOptions);
+		const stdoutLines = new LineBuffer(onOutput);
+		const stderrLines = new LineBuffer(onOutput);
+		let settled = false;
+
+		child.stdout.on('data', (chunk: Buffer) => stdoutLines.push(chunk.toString()));
+		child.stderr.on('data', (chunk: Buffer) => stderrLines.push(chunk.toString()));
+
+		const onFinish = (error: any): void => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			cancellationListener?.dispose();
+			clearTimeout(timeoutTimer);
+			stdoutLines.flush();
+			stderrLines.flush();
+
+			// The process was killed because the user stopped the test run, so the output is incomplete
+			if (token?.isCancellationRequested) {
+				reject(createCancellationError(args));
+				return;
+			}
+
+			if (timedOut) {
+				reject(
+					new KaniResponseError({
+						name: 'TimeoutError',
+						message: `Verification timed out after ${timeoutSeconds}s`,
+					}),
+				);
+				return;
+			}
+
+			// Strip the color codes so that the output can be parsed
+			const stdout = stripAnsi(stdoutLines.content);
+			const stderr = stripAnsi(stderrLines.content);
+
 			// Store the output of the process into an object
 			const output: CommandOutput = {
-				stdout: stdout.toString(),
-				stderr: stderr.toString(),
+				stdout: stdout,
+				stderr: stderr,
 				errorCode: error?.code,
 				error: error,
 			};
@@ -221,20 +350,20 @@ async function executeKaniProcess(
 			try {
 				const result = checkOutputForError(output.stdout, output.stderr);
 				if (result) {
-					sendErrorToChannel(output, args);
+					sendErrorToChannel(output, args, options.cwd);
 					reject(new Error(error?.message));
 				}
 			} catch (error) {
 				if (error instanceof KaniResponseError) {
 					if (error.name === 'KaniCompilationError') {
-						sendErrorToChannel(output, args);
+						sendErrorToChannel(output, args, options.cwd);
 						reject(new Error(error?.message));
 					}
 				}
 				reject(error);
 			}
 			// Send output to output channel specific to the harness
-			sendOutputToChannel(output, args);
+			sendOutputToChannel(output, args, options.cwd);
 
 			if (stderr && !stdout) {
 				if (cargoKaniMode) {
@@ -245,11 +374,11 @@ async function executeKaniProcess(
 					);
 					reject();
 				} else {
-					resolve(2);
+					resolve({ statusCode: 2, output: parseVerificationOutput(stdout, jsonPath) });
 				}
 			} else if (error) {
 				if (error.code === 1) {
-					resolve(1);
+					resolve({ statusCode: 1, output: parseVerificationOutput(stdout, jsonPath) });
 				} else {
 					// Error is an object created by nodejs created when nodejs cannot execute the command
 					showErrorWithReportIssueButton(
@@ -259,50 +388,130 @@ async function executeKaniProcess(
 				}
 			} else {
 				// verification successful
-				resolve(0);
+				resolve({ statusCode: 0, output: parseVerificationOutput(stdout, jsonPath) });
 			}
+		};
+
+		// Error is emitted when the process could not be spawned at all
+		child.on('error', (error) => onFinish(error));
+		child.on('close', (code, signal) => {
+			if (code === 0) {
+				onFinish(undefined);
+				return;
+			}
+			const error: any = new Error(
+				`Command failed: ${kaniBinaryPath} ${args.join(' ')}\n${stripAnsi(stderrLines.content)}`,
+			);
+			error.code = code;
+			error.signal = signal;
+			onFinish(error);
 		});
+
+		const cancellationListener: vscode.Disposable | undefined = token?.onCancellationRequested(() =>
+			killProcessTree(child),
+		);
+
+		// Kill runaway solvers once the time limit for the verification is exceeded
+		let timedOut = false;
+		const timeoutTimer: NodeJS.Timeout | undefined = timeoutSeconds
+			? setTimeout(() => {
+					timedOut = true;
+					killProcessTree(child);
+			  }, timeoutSeconds * 1000)
+			: undefined;
 	});
 }
 
-// Creates a unique name and adds a channel for the harness output to Output Logs
-export function sendErrorToChannel(output: CommandOutput, args: string[]): void {
-	if (args.length == 0) {
+/**
+ * Accumulates the output of a stream and forwards every complete line to the
+ * given callback as soon as it is received.
+ */
+class LineBuffer {
+	public content: string = '';
+	private pending: string = '';
+
+	constructor(private readonly onLine?: (line: string) => void) {}
+
+	public push(chunk: string): void {
+		this.content += chunk;
+		if (!this.onLine) {
+			return;
+		}
+		const lines = (this.pending + chunk).split('\n');
+		this.pending = lines.pop()!;
+		for (const line of lines) {
+			this.onLine(line.replace(/\r$/, ''));
+		}
+	}
+
+	// Forward the last line if the stream did not end with a newline
+	public flush(): void {
+		if (this.onLine && this.pending !== '') {
+			this.onLine(this.pending);
+		}
+		this.pending = '';
+	}
+}
+
+// Error thrown when the process running a harness was stopped from the test explorer
+function createCancellationError(args: string[]): KaniResponseError {
+	const harnessName = args.length > 0 ? args.at(args.length - 1)! : '';
+	return new KaniResponseError({
+		name: 'CancellationError',
+		message: `Verification of ${harnessName} was cancelled by user`,
+	});
+}
+
+// Terminate the process along with the cargo, kani-compiler and cbmc processes spawned by it
+function killProcessTree(child: ChildProcess): void {
+	if (child.pid === undefined || typeof child.exitCode === 'number') {
 		return;
 	}
-	const harnessName = args.at(args.length - 1)!;
 
-	// Create unique ID for the output channel
-	const timestamp = getTimeBasedUniqueId();
-	const channel = vscode.window.createOutputChannel(`Error (Kani): ${harnessName} - ${timestamp}`);
+	try {
+		if (process.platform === 'win32') {
+			execFile('taskkill', ['/pid', `${child.pid}`, '/T', '/F']);
+		} else {
+			// A negative pid sends the signal to every process in the process group
+			process.kill(-child.pid, 'SIGTERM');
+		}
+	} catch (error) {
+		console.error(`Could not stop the Kani process: ${error}`);
+		child.kill('SIGTERM');
+	}
+}
 
-	// Append stdout to the output channel
-	channel.appendLine(output.error?.message);
-	// Open channel but don't change focus
-	channel.show(true);
+// Name the run after the harnesses it verifies, or its last argument if no harness was given
+function getRunTitle(args: string[]): string {
+	const harnessNames = args.filter(
+		(arg, index) => index > 0 && args[index - 1] === KaniArguments.harnessFlag,
+	);
+	return harnessNames.length > 0 ? harnessNames.join(', ') : args.at(args.length - 1)!;
 }
 
-// Creates a unique name and adds a channel for the harness output to Output Logs
-export function sendOutputToChannel(output: CommandOutput, args: string[]): void {
+// Adds the error of the run to the Kani output channel and reveals it
+export function sendErrorToChannel(output: CommandOutput, args: string[], cwd?: string): void {
 	if (args.length == 0) {
 		return;
 	}
-	const harnessName = args.at(args.length - 1)!;
-
-	// Create unique ID for the output channel
-	const timestamp = getTimeBasedUniqueId();
-	const channel = vscode.window.createOutputChannel(`Output (Kani): ${harnessName} - ${timestamp}`);
+	OutputManager.getInstance().appendRun(
+		`Error: ${getRunTitle(args)}`,
+		output.error?.message ?? output.stderr,
+		cwd,
+		true,
+	);
+}
 
-	// Append stdout to the output channel
-	channel.appendLine(output.stdout);
+// Adds the output of the run to the Kani output channel
+export function sendOutputToChannel(output: CommandOutput, args: string[], cwd?: string): void {
+	if (args.length == 0) {
+		return;
+	}
 
 	// Access the configuration
 	const config = vscode.workspace.getConfiguration('Kani');
-	const showOutputWindow = config.get('showOutputWindow');
+	const showOutputWindow = config.get('showOutputWindow', false);
 
 	// Use the value to show or hide the output window
-	if (showOutputWindow) {
-		// Open channel but don't change focus
-		channel.show(true);
-	}
+	OutputManager.getInstance().appendRun(getRunTitle(args), output.stdout, cwd, showOutputWindow);
 }
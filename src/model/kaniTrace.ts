@@ -0,0 +1,171 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import { SourceLocation } from './kaniResult';
+
+// Kinds of steps shown in a counterexample trace
+export type TraceStepKind = 'call' | 'return' | 'assignment' | 'assumption' | 'failure';
+
+/**
+ * One step of a counterexample trace
+ *
+ * @param kind - What happened at this step
+ * @param label - Text shown for the step, i.e `x = 42u` or `Function call: add`
+ * @param location - Source location of the step, if CBMC reported one
+ * @param variable - Variable assigned at this step, for assignments
+ * @param value - Value assigned to the variable, for assignments
+ * @param depth - Depth of the function the step belongs to, the harness being 0
+ */
+export interface TraceStep {
+	kind: TraceStepKind;
+	label: string;
+	location?: SourceLocation;
+	variable?: string;
+	value?: string;
+	depth: number;
+}
+
+/**
+ * Counterexample trace of a failed property
+ *
+ * @param propertyId - Identifier of the property the trace violates
+ * @param steps - Steps of the trace, ending with the failed property
+ */
+export interface KaniTrace {
+	propertyId: string;
+	steps: TraceStep[];
+}
+
+/**
+ * Parse the counterexample traces that CBMC prints with `--trace` when Kani runs with
+ * `--output-format old`. Function calls and returns are only printed with
+ * `--trace-show-function-calls`.
+ *
+ * @param output - Kani's standard output
+ * @returns one trace per failed property, in the order they were printed
+ */
+export function parseKaniTraces(output: string): KaniTrace[] {
+	const traces: KaniTrace[] = [];
+	const lines = output.split(/\r?\n/);
+	let trace: KaniTrace | undefined;
+	// Location of the last state header, which applies to the assignments below it
+	let stateLocation: SourceLocation | undefined;
+	let depth = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+
+		const traceHeader = line.match(/^Trace for (.+):\s*$/);
+		if (traceHeader) {
+			trace = { propertyId: traceHeader[1], steps: [] };
+			traces.push(trace);
+			stateLocation = undefined;
+			depth = 0;
+			continue;
+		}
+		if (trace === undefined) {
+			continue;
+		}
+
+		const state = line.match(/^State \d+ (.*)$/);
+		if (state) {
+			stateLocation = parseTraceLocation(state[1]);
+			continue;
+		}
+
+		const call = line.match(/^#### Function call: ([^(\s]+)/);
+		if (call) {
+			trace.steps.push({
+				kind: 'call',
+				label: `Function call: ${call[1]}`,
+				location: stateLocation,
+				depth,
+			});
+			depth++;
+			continue;
+		}
+
+		const functionReturn = line.match(/^#### Function return from ([^(\s]+)/);
+		if (functionReturn) {
+			depth = Math.max(0, depth - 1);
+			trace.steps.push({
+				kind: 'return',
+				label: `Function return: ${functionReturn[1]}`,
+				location: stateLocation,
+				depth,
+			});
+			continue;
+		}
+
+		// The location and the expression (or description) of the property follow on their own lines
+		if (line.startsWith('Violated property:') || line.startsWith('Assumption:')) {
+			const isFailure = line.startsWith('Violated property:');
+			const location = parseTraceLocation(lines[i + 1]?.trim() ?? '');
+			const text = lines[i + 2]?.trim() ?? '';
+			trace.steps.push({
+				kind: isFailure ? 'failure' : 'assumption',
+				label: isFailure ? `Violated property: ${text}` : `Assumption: ${text}`,
+				location,
+				depth,
+			});
+			i += 2;
+			if (isFailure) {
+				trace = undefined;
+			}
+			continue;
+		}
+
+		// Assignments are indented under their state, the value may be followed by its bits
+		const assignment = line.match(/^ {2}([^\s=][^=]*?)=(.*?)(?: \([01 ]+\))?\s*$/);
+		if (assignment && stateLocation !== undefined) {
+			const variable = assignment[1].trim();
+			const value = assignment[2].trim();
+			trace.steps.push({
+				kind: 'assignment',
+				label: `${variable} = ${value}`,
+				location: stateLocation,
+				variable,
+				value,
+				depth,
+			});
+		}
+	}
+	return traces;
+}
+
+/**
+ * Get the value of every variable assigned up to a step of the trace
+ *
+ * @param steps - steps of the trace
+ * @param index - index of the current step
+ * @returns the latest value of each variable, in the order the variables were first assigned
+ */
+export function getTraceVariables(steps: TraceStep[], index: number): Map<string, string> {
+	const variables = new Map<string, string>();
+	for (const step of steps.slice(0, index + 1)) {
+		if (step.variable !== undefined) {
+			variables.set(step.variable, step.value ?? '');
+		}
+	}
+	return variables;
+}
+
+// Parse a location as printed by CBMC, i.e `file src/lib.rs function check line 10 thread 0`
+function parseTraceLocation(text: string): SourceLocation | undefined {
+	const fields = new Map<string, string>();
+	const words = text.trim().split(/\s+/);
+	for (let i = 0; i + 1 < words.length; i += 2) {
+		fields.set(words[i], words[i + 1]);
+	}
+	const file = fields.get('file');
+	const line = parseInt(fields.get('line') ?? '');
+	if (file === undefined || isNaN(line)) {
+		return undefined;
+	}
+	const column = parseInt(fields.get('column') ?? '');
+	return {
+		file,
+		line,
+		column: isNaN(column) ? undefined : column,
+		function: fields.get('function'),
+	};
+}
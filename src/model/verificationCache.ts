@@ -0,0 +1,189 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { HarnessResult } from './kaniResult';
+
+const cacheStorageKey = 'kani.verificationCache';
+
+/**
+ * Verification result stored in the cache
+ *
+ * @param fingerprint - Hash of everything that can change the result (Kani version, flags and sources)
+ * @param statusCode - Status code of the verification (0 - success, 1 - failure)
+ * @param result - Parsed verification result of the harness
+ * @param duration - Time taken by the original verification in milliseconds
+ * @param verifiedAt - Time the harness was verified, in milliseconds since the epoch
+ */
+export interface CachedVerification {
+	fingerprint: string;
+	statusCode: number;
+	result: HarnessResult;
+	duration: number;
+	verifiedAt: number;
+}
+
+// Identity of the harness and fingerprint of its verification, used to look up the cache
+export interface CacheKey {
+	identity: string;
+	fingerprint: string;
+}
+
+// Stores the last verification result of every harness in the workspace state, so that harnesses
+// are not verified again while neither their sources nor the Kani setup have changed, and so that
+// their last status can be shown after VS Code restarts.
+class VerificationCache {
+	private static instance: VerificationCache;
+	private storage: vscode.Memento | undefined;
+	private sourceHashes: Map<string, Promise<string>>;
+
+	private constructor() {
+		this.sourceHashes = new Map();
+	}
+
+	public static getInstance(): VerificationCache {
+		if (!VerificationCache.instance) {
+			VerificationCache.instance = new VerificationCache();
+		}
+		return VerificationCache.instance;
+	}
+
+	public setStorage(storage: vscode.Memento): void {
+		this.storage = storage;
+	}
+
+	// Return the cached result if it was produced with the same fingerprint
+	public get(key: CacheKey): CachedVerification | undefined {
+		const entry = this.getEntries()[key.identity];
+		if (entry === undefined || entry.fingerprint !== key.fingerprint) {
+			return undefined;
+		}
+		return entry;
+	}
+
+	// Only the latest result is kept for each harness, which bounds the size of the cache
+	public async store(
+		key: CacheKey,
+		verification: Omit<CachedVerification, 'fingerprint' | 'verifiedAt'>,
+	): Promise<void> {
+		const entries = this.getEntries();
+		entries[key.identity] = {
+			...verification,
+			fingerprint: key.fingerprint,
+			verifiedAt: Date.now(),
+		};
+		await this.storage?.update(cacheStorageKey, entries);
+	}
+
+	// Return true if any harness of the file has a stored result
+	public hasResultsForFile(filePath: string): boolean {
+		// Identities start with the path of the file, see createIdentity
+		const prefix = `${filePath}|`;
+		return Object.keys(this.getEntries()).some((identity) => identity.startsWith(prefix));
+	}
+
+	public async clear(): Promise<void> {
+		this.sourceHashes.clear();
+		await this.storage?.update(cacheStorageKey, undefined);
+	}
+
+	// Sources have changed on disk, so the hashes need to be computed again
+	public clearSourceHashes(): void {
+		this.sourceHashes.clear();
+	}
+
+	/**
+	 * Hash the Rust sources, manifest and lock file of a package, along with the sources and
+	 * manifests of the local packages it depends on. The hash is computed once and reused until
+	 * the sources change.
+	 *
+	 * @param packageRoot - directory containing the Cargo.toml of the package
+	 * @param dependencyRoots - directories of the local packages the package depends on
+	 * @returns hex digest of the package sources
+	 */
+	public getSourceHash(packageRoot: string, dependencyRoots: string[] = []): Promise<string> {
+		const key = [packageRoot, ...dependencyRoots].join('|');
+		let sourceHash = this.sourceHashes.get(key);
+		if (sourceHash === undefined) {
+			sourceHash = computeSourceHash(packageRoot, dependencyRoots);
+			this.sourceHashes.set(key, sourceHash);
+		}
+		return sourceHash;
+	}
+
+	private getEntries(): Record<string, CachedVerification> {
+		return { ...this.storage?.get<Record<string, CachedVerification>>(cacheStorageKey, {}) };
+	}
+}
+
+/**
+ * Create the identity of a harness in the cache
+ *
+ * @param filePath - path of the file that contains the harness
+ * @param qualifiedName - name of the harness expanded with its module
+ * @param proof - True if proof, false if bolero harness
+ */
+export function createIdentity(filePath: string, qualifiedName: string, proof: boolean): string {
+	return [filePath, qualifiedName, proof].join('|');
+}
+
+// Create a fingerprint out of everything that can change the verification result
+export function createFingerprint(parts: string[]): string {
+	return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+async function computeSourceHash(packageRoot: string, dependencyRoots: string[]): Promise<string> {
+	const files: string[] = [];
+	for (const root of [packageRoot, ...dependencyRoots]) {
+		files.push(...(await collectSourceFiles(root)));
+	}
+	const lockFile = findLockFile(packageRoot);
+	if (lockFile !== undefined) {
+		files.push(lockFile);
+	}
+
+	const hash = crypto.createHash('sha256');
+	for (const file of [...new Set(files)].sort()) {
+		hash.update(path.relative(packageRoot, file));
+		hash.update(await fs.promises.readFile(file));
+	}
+	return hash.digest('hex');
+}
+
+// Collect the Rust sources and the manifest of the package, skipping build artifacts
+async function collectSourceFiles(directory: string): Promise<string[]> {
+	const files: string[] = [];
+	const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+	for (const entry of entries) {
+		const entryPath = path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			if (entry.name !== 'target' && !entry.name.startsWith('.')) {
+				files.push(...(await collectSourceFiles(entryPath)));
+			}
+		} else if (entry.name.endsWith('.rs') || entry.name === 'Cargo.toml') {
+			files.push(entryPath);
+		}
+	}
+	return files;
+}
+
+// The lock file is at the root of the cargo workspace, which can be above the package
+function findLockFile(packageRoot: string): string | undefined {
+	let directory = packageRoot;
+	while (true) {
+		const lockFile = path.join(directory, 'Cargo.lock');
+		if (fs.existsSync(lockFile)) {
+			return lockFile;
+		}
+		if (directory === path.dirname(directory)) {
+			return undefined;
+		}
+		directory = path.dirname(directory);
+	}
+}
+
+export default VerificationCache;
@@ -5,19 +5,54 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { MarkdownString, TestMessage, Uri } from 'vscode';
 
-import { KaniResponse } from '../constants';
-import { captureFailedChecks, runKaniHarnessInterface } from '../model/kaniCommandCreate';
+import GlobalConfig from '../globalConfig';
+import {
+	getCargoMetadata,
+	getFileTarget,
+	getLocalPackageRoots,
+	getTargetArgs,
+} from '../model/cargoMetadata';
+import { getKaniCapabilities, supportsFeature } from '../model/kaniCapabilities';
+import { runKaniBatchInterface, runKaniHarnessInterface } from '../model/kaniCommandCreate';
+import { getHarnessConfigArgs } from '../model/kaniConfig';
+import {
+	createEmptyHarnessResult,
+	createFailedChecksTable,
+	parseHarnessHeader,
+	parseKaniTextOutput,
+	parsePlaybackTestName,
+} from '../model/kaniOutputParser';
+import {
+	CheckResult,
+	CoverageEntry,
+	HarnessResult,
+	HarnessVerification,
+	KaniExecution,
+	isFailedCheck,
+} from '../model/kaniResult';
+import { KaniRunOptions } from '../model/kaniRunner';
+import VerificationCache, {
+	CacheKey,
+	createFingerprint,
+	createIdentity,
+} from '../model/verificationCache';
+import KaniDiagnostics, { getCheckLocation } from '../ui/diagnostics';
+import OutputManager from '../ui/outputManager';
 import { SourceCodeParser } from '../ui/sourceCodeParser';
 import { FileMetaData } from '../ui/sourceMap';
 import {
 	extractFileName,
 	getContentFromFilesystem,
+	getCrateRoot,
+	getHarnessTimeoutSeconds,
 	getPackageName,
 	getPackageNameFromFilePath,
+	getPackageRootFromFilePath,
 	showErrorWithReportIssueButton,
+	stripAnsi,
 } from '../utils';
 
-export type KaniData = TestFile | TestCase | string;
+export type KaniData = TestFile | TestCase | TestCheck | string;
 
 // WeakMap as recommended by VSCode Guidelines to store additional info
 export const testData = new WeakMap<vscode.TestItem, KaniData>();
@@ -44,6 +79,39 @@ export function getWorkspaceTestPatterns() {
 	}));
 }
 
+// Root nodes of the test tree, one per workspace folder, keyed by the URI of the folder
+const workspaceRoots = new Map<string, vscode.TestItem>();
+
+/**
+ * Get the root node of the workspace folder that owns the file. Each workspace folder gets its
+ * own node, which is added to the tree once it contains a file with harnesses.
+ *
+ * @param controller - Test Controller that contains all test cases and files
+ * @param uri - file in the workspace folder
+ * @returns the root node of the workspace folder
+ */
+export function getWorkspaceRoot(
+	controller: vscode.TestController,
+	uri: Uri,
+): vscode.TestItem | undefined {
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+	if (workspaceFolder === undefined) {
+		return undefined;
+	}
+
+	const key = workspaceFolder.uri.toString();
+	let rootItem = workspaceRoots.get(key);
+	if (rootItem === undefined) {
+		rootItem = controller.createTestItem(
+			`Kani proofs/${key}`,
+			workspaceFolder.name,
+			workspaceFolder.uri,
+		);
+		workspaceRoots.set(key, rootItem);
+	}
+	return rootItem;
+}
+
 // Find all the files in the crate that contain kani or bolero proofs
 /**
  *
@@ -109,10 +177,47 @@ export async function getOrCreateFile(
 	if (rootItem) {
 		rootItem.children.add(file);
 		controller.items.add(rootItem);
+		await restorePreviousResults(controller, file, data);
 	}
 	return { file, data };
 }
 
+// Files whose previous results have already been shown in this session
+const restoredFiles = new Set<string>();
+
+/**
+ * Show the results the harnesses of the file had when they were last verified, so their status
+ * is visible after VS Code restarts and before they are verified again. Only the results that
+ * are still up to date with the sources and the Kani setup are shown.
+ *
+ * @param controller - Test Controller that contains all test cases and files
+ * @param file - test item of the file
+ * @param data - test data of the file
+ */
+async function restorePreviousResults(
+	controller: vscode.TestController,
+	file: vscode.TestItem,
+	data: TestFile,
+): Promise<void> {
+	const filePath = file.uri!.fsPath;
+	if (restoredFiles.has(filePath) || !VerificationCache.getInstance().hasResultsForFile(filePath)) {
+		return;
+	}
+	restoredFiles.add(filePath);
+
+	// The harnesses of the file are needed to show their results
+	await data.updateFromContents(controller, await getContentFromFilesystem(file.uri!), file);
+
+	const run = controller.createTestRun(new vscode.TestRunRequest([file]), 'Previous Kani results');
+	for (const [, item] of file.children) {
+		const testCase = testData.get(item);
+		if (testCase instanceof TestCase) {
+			await testCase.reportPreviousResult(item, run);
+		}
+	}
+	run.end();
+}
+
 /**
  * A test file is a collection of harnesses that belong to the same rust file
  * This allows users to run proofs organized by files as well as individual test cases
@@ -170,7 +275,7 @@ export class TestFile {
 
 		// Trigger the parser and process extracted metadata to create a test case
 		await SourceCodeParser.parseRustfile(content, {
-			onTest: (range, harnessName, proofBoolean, stubAttribute, moduleName) => {
+			onTest: (range, harnessName, proofBoolean, stubAttribute, moduleName, timeout) => {
 				const parent = ancestors[ancestors.length - 1];
 				if (!item.uri || !item.uri.fsPath) {
 					throw new Error('No item or item path found');
@@ -186,6 +291,9 @@ export class TestFile {
 					proofBoolean,
 					stubAttribute,
 					moduleName,
+					timeout,
+					metadata.targetArgs,
+					controller,
 				);
 				const id: string = `${item.uri}/${data.getLabel()}`;
 
@@ -207,9 +315,9 @@ export class TestFile {
 	public addToCrate(
 		controller: vscode.TestController,
 		currentFile: vscode.TestItem,
-		rootItem: vscode.TestItem,
+		rootItem = getWorkspaceRoot(controller, currentFile.uri!),
 	): void {
-		if (this.didResolve) {
+		if (this.didResolve && rootItem) {
 			rootItem.children.add(currentFile);
 			controller.items.add(rootItem);
 		}
@@ -226,9 +334,24 @@ export class TestFile {
  * @param proof_boolean - True if proof, false if bolero harness
  * @param stubbing - True if the Kani harness is annotated with stubs
  * @param module_name - Name of the module containing the harness if present
+ * @param timeout_seconds - Time limit for the harness from its `kani-timeout` comment if present
+ * @param target_args - Arguments that select the target containing the harness, i.e `--lib`
+ * @param controller - Test Controller that the items of the checks of the harness are created with
  * @returns verification status (i.e success or failure)
  */
 export class TestCase {
+	// Cache key computed before the harness is verified, its result is stored under this key
+	private cacheKey: CacheKey | undefined;
+	// Arguments from the Kani configuration of the package, loaded before the harness is verified
+	private configArgs: string[] = [];
+	// Status code and checks of the last result reported for the harness, undefined until it has one
+	lastStatusCode: number | undefined;
+	lastResult: HarnessResult | undefined;
+	// Concrete test Kani wrote for the counterexample in the last run, if it was asked to
+	lastPlaybackTest: string | undefined;
+	// Lines covered by the harness in the last run, if Kani was asked for coverage
+	lastCoverage: CoverageEntry[] = [];
+
 	constructor(
 		readonly file_name: string,
 		readonly harness_name: string,
@@ -236,6 +359,9 @@ export class TestCase {
 		readonly proof_boolean: boolean,
 		readonly stubbing_request?: boolean,
 		readonly module_name?: string,
+		readonly timeout_seconds?: number,
+		readonly target_args: string[] = [],
+		readonly controller?: vscode.TestController,
 	) {}
 
 	getLabel(): string {
@@ -264,124 +390,365 @@ export class TestCase {
 		return this.harness_name;
 	}
 
-	// Run Kani on the harness, create links and pass/fail ui, present to the user
-	async run(item: vscode.TestItem, options: vscode.TestRun): Promise<void> {
+	// Directory Kani runs in for the harness, in the workspace folder that contains it
+	getCrateRoot(): string {
+		return getCrateRoot(Uri.file(this.file_name));
+	}
+
+	// Time limit for verifying the harness, the comment on the harness takes precedence over the settings
+	getTimeoutSeconds(): number {
+		return this.timeout_seconds ?? getHarnessTimeoutSeconds();
+	}
+
+	// Arguments that restrict the build to the target of the harness. Bolero harnesses are
+	// selected with `--tests` instead.
+	getTargetArgs(): string[] {
+		return this.proof_boolean ? this.target_args : [];
+	}
+
+	// Read the `[package.metadata.kani]` configuration that applies to the harness again, since the
+	// manifests may have changed since the harness was last verified
+	async loadKaniConfig(): Promise<void> {
+		this.configArgs = await getHarnessConfigArgs(
+			Uri.file(this.file_name),
+			this.expandFunctionName(),
+		);
+	}
+
+	// Arguments of the report and concrete playback commands for the harness
+	getHarnessArgs(): { harnessName: string; harnessFile: string; harnessType: boolean } {
+		return {
+			harnessName: this.harness_name,
+			harnessFile: this.file_name,
+			harnessType: this.proof_boolean,
+		};
+	}
+
+	// Arguments passed to Kani on top of the ones of the command, i.e the target and configured flags
+	getKaniArgs(): string[] {
+		return [...this.getTargetArgs(), ...this.configArgs];
+	}
+
+	// Identity of the harness in the verification cache, it stays the same when the sources change
+	getCacheIdentity(): string {
+		return createIdentity(this.file_name, this.expandFunctionName(), this.proof_boolean);
+	}
+
+	// Key of the harness in the verification cache, the fingerprint changes whenever the sources of
+	// the package and its local dependencies, the Kani installation or the flags used for the
+	// harness change. Harnesses whose local dependencies are not known are not cached.
+	async getCacheKey(): Promise<CacheKey | undefined> {
+		const globalConfig = GlobalConfig.getInstance();
+		const packageRoot = getPackageRootFromFilePath(this.file_name);
+		const workspace = await getCargoMetadata(this.getCrateRoot());
+		const localRoots = workspace && getLocalPackageRoots(workspace, packageRoot);
+		if (localRoots === undefined) {
+			return undefined;
+		}
+		const sourceHash = await VerificationCache.getInstance().getSourceHash(
+			packageRoot,
+			localRoots.slice(1),
+		);
+		return {
+			identity: this.getCacheIdentity(),
+			fingerprint: createFingerprint([
+				globalConfig.getKaniVersion(),
+				globalConfig.getFilePath(),
+				this.package_name,
+				String(Boolean(this.stubbing_request)),
+				this.getKaniArgs().join(' '),
+				sourceHash,
+			]),
+		};
+	}
+
+	/**
+	 * Report the result of the last verification of the harness if nothing that affects it has
+	 * changed since, so the harness does not need to be verified again
+	 *
+	 * @param item - Test item of the harness
+	 * @param options - Test run that the harness belongs to
+	 * @param useCache - False if the harness must be verified again regardless of the cache
+	 * @returns true if a cached result was reported
+	 */
+	async reportCachedResult(
+		item: vscode.TestItem,
+		options: vscode.TestRun,
+		useCache: boolean,
+	): Promise<boolean> {
+		try {
+			this.cacheKey = await this.getCacheKey();
+		} catch (error) {
+			// The result can still be verified and reported, it just won't be cached
+			console.error(`Could not compute the cache key of ${this.harness_name}`, error);
+			this.cacheKey = undefined;
+			item.description = undefined;
+			return false;
+		}
+
+		const cached =
+			useCache && this.cacheKey !== undefined
+				? VerificationCache.getInstance().get(this.cacheKey)
+				: undefined;
+		if (cached === undefined) {
+			item.description = undefined;
+			return false;
+		}
+
+		// The result is already in the cache, so it must not be stored again
+		this.cacheKey = undefined;
+		item.description = '(cached)';
+		options.appendOutput(`Using cached result for ${this.harness_name}\r\n`, undefined, item);
+		this.reportResult(item, options, cached.statusCode, cached.result, cached.duration);
+		return true;
+	}
+
+	// Report the result the harness had when it was last verified, which may be from a previous
+	// session, if nothing that affects the result has changed since
+	async reportPreviousResult(item: vscode.TestItem, options: vscode.TestRun): Promise<void> {
+		let cacheKey: CacheKey | undefined;
+		try {
+			await this.loadKaniConfig();
+			cacheKey = await this.getCacheKey();
+		} catch (error) {
+			console.error(`Could not compute the cache key of ${this.harness_name}`, error);
+			return;
+		}
+		const previous = cacheKey && VerificationCache.getInstance().get(cacheKey);
+		if (previous === undefined) {
+			return;
+		}
+		item.description = `(last verified ${new Date(previous.verifiedAt).toLocaleString()})`;
+		this.reportResult(item, options, previous.statusCode, previous.result, previous.duration);
+	}
+
+	// Keep the name of the concrete test if the line of Kani's output reports that it was written
+	recordOutputLine(line: string): void {
+		this.lastPlaybackTest = parsePlaybackTestName(stripAnsi(line)) ?? this.lastPlaybackTest;
+	}
+
+	/**
+	 * Run Kani on the harness, create links and pass/fail ui, present to the user
+	 *
+	 * @param item - Test item of the harness
+	 * @param options - Test run that the harness belongs to
+	 * @param token - cancellation token of the test run
+	 * @param profileArgs - arguments the run profile passes to Kani, i.e to generate concrete tests
+	 */
+	async run(
+		item: vscode.TestItem,
+		options: vscode.TestRun,
+		token?: vscode.CancellationToken,
+		profileArgs: string[] = [],
+	): Promise<void> {
 		const start: number = Date.now();
 		const qualified_name = this.expandFunctionName();
+		const location = new vscode.Location(item.uri!, item.range!);
+		this.lastPlaybackTest = undefined;
+		this.lastCoverage = [];
 
-		if (this.proof_boolean) {
-			const actual: number = await this.evaluate(
-				this.harness_name,
-				this.package_name,
-				this.stubbing_request,
-				qualified_name,
-			);
-			const duration: number = Date.now() - start;
-			if (actual === 0) {
-				options.passed(item, duration);
-			} else if (actual == 1) {
-				const location = new vscode.Location(item.uri!, item.range!);
-				const responseObject: KaniResponse = await captureFailedChecks(
-					qualified_name,
+		// Stream Kani's output into the test results panel while the harness is being verified
+		const runOptions: KaniRunOptions = {
+			token: token,
+			onOutput: (line: string) => {
+				this.recordOutputLine(line);
+				options.appendOutput(`${line}\r\n`, location, item);
+			},
+			timeoutSeconds: this.getTimeoutSeconds(),
+			cwd: this.getCrateRoot(),
+			extraArgs: [...this.getKaniArgs(), ...profileArgs],
+		};
+
+		const { statusCode, result, errorMessage, coverage } = this.proof_boolean
+			? await this.evaluate(
+					this.harness_name,
 					this.package_name,
-					false,
 					this.stubbing_request,
-				);
-				const failedChecks: string = responseObject.failedProperty;
-				const failedMessage: string = responseObject.failedMessages;
-				const currentCase = new FailedCase(
-					failedChecks,
-					this.file_name,
 					qualified_name,
+					runOptions,
+			  )
+			: await this.evaluateTest(
+					this.harness_name,
 					this.package_name,
-					this.proof_boolean,
-					failedMessage,
-				);
-
-				// Create failure case and return UI
-				const messageWithLink: vscode.TestMessage = currentCase.handleFailure();
-				options.appendOutput(failedMessage, location, item);
-				options.failed(item, messageWithLink, duration);
-			} else {
-				options.errored(
-					item,
-					new TestMessage(
-						'Kani executable was unable to detect or run harness. Please check Output (Kani) channel in the Output window for more information.',
-					),
-				);
-			}
+					this.stubbing_request,
+					qualified_name,
+					runOptions,
+			  );
+		const duration = Date.now() - start;
+		this.lastCoverage = coverage ?? [];
+		if (token?.isCancellationRequested) {
+			this.reportCancellation(item, options);
 		} else {
-			const actual = await this.evaluateTest(
-				this.harness_name,
+			this.reportResult(item, options, statusCode, result, duration, errorMessage);
+		}
+	}
+
+	/**
+	 * Present the verification result of the harness to the user as pass/fail ui
+	 *
+	 * @param item - Test item of the harness
+	 * @param options - Test run that the harness belongs to
+	 * @param statusCode - Status code of the verification (0 - success, 1 - failure, anything else - error)
+	 * @param result - Parsed verification result of the harness
+	 * @param duration - Time taken to verify the harness in milliseconds
+	 * @param errorMessage - Reason the verification could not complete, i.e a timeout
+	 */
+	reportResult(
+		item: vscode.TestItem,
+		options: vscode.TestRun,
+		statusCode: number,
+		result: HarnessResult,
+		duration: number,
+		errorMessage?: string,
+	): void {
+		// Only completed verifications are cached, errors and timeouts may not happen again
+		if (this.cacheKey !== undefined && (statusCode === 0 || statusCode === 1)) {
+			VerificationCache.getInstance()
+				.store(this.cacheKey, { statusCode, result, duration })
+				.catch((error) => {
+					// The result is still reported, it is only verified again next time
+					const message = (error as Error).message;
+					OutputManager.getInstance().appendRun(
+						`Error: Cache: ${this.harness_name}`,
+						`Could not store the result in the verification cache: ${message}`,
+					);
+				});
+		}
+		this.cacheKey = undefined;
+		this.lastStatusCode = statusCode;
+		this.lastResult = result;
+
+		// The failed checks are shown in the Problems panel until the harness passes
+		const location = new vscode.Location(item.uri!, item.range!);
+		if (statusCode === 0) {
+			KaniDiagnostics.getInstance().clearHarness(this.getCacheIdentity());
+		} else if (statusCode === 1) {
+			KaniDiagnostics.getInstance().setHarnessResult(
+				this.getCacheIdentity(),
+				{ name: this.harness_name, location },
+				result,
+				this.getCrateRoot(),
+			);
+		}
+
+		if (statusCode === 0 || statusCode === 1) {
+			this.reportChecks(item, options, result);
+		}
+
+		if (statusCode === 0) {
+			options.passed(item, duration);
+		} else if (statusCode == 1) {
+			const currentCase = new FailedCase(
+				result,
+				this.file_name,
+				this.expandFunctionName(),
 				this.package_name,
-				this.stubbing_request,
-				qualified_name,
+				this.proof_boolean,
 			);
-			const duration = Date.now() - start;
-			if (actual === 0) {
-				options.passed(item, duration);
-			} else if (actual == 1) {
-				const location = new vscode.Location(item.uri!, item.range!);
-				const responseObject: KaniResponse = await captureFailedChecks(
-					qualified_name,
-					this.package_name,
-					true,
-					this.stubbing_request,
-				);
-				const failedChecks: string = responseObject.failedProperty;
-				const failedMessage: string = responseObject.failedMessages;
-				const currentCase = new FailedCase(
-					failedChecks,
-					this.file_name,
-					qualified_name,
-					this.package_name,
-					this.proof_boolean,
-					failedMessage,
-				);
-				const messageWithLink: vscode.TestMessage = currentCase.handleFailure();
-				options.appendOutput(failedMessage, location, item);
-				options.failed(item, messageWithLink, duration);
+			const failedMessage: string = currentCase.getFailedDescriptions();
+
+			// Create failure case and return UI
+			const messages: vscode.TestMessage[] = currentCase.handleFailure(
+				location,
+				this.getCrateRoot(),
+			);
+			options.appendOutput(failedMessage, location, item);
+			options.failed(item, messages, duration);
+		} else if (errorMessage !== undefined) {
+			options.appendOutput(`${errorMessage}\r\n`, undefined, item);
+			options.errored(item, new TestMessage(errorMessage), duration);
+		} else {
+			options.errored(
+				item,
+				new TestMessage(
+					'Kani executable was unable to detect or run harness. Please check Output (Kani) channel in the Output window for more information.',
+				),
+			);
+		}
+	}
+
+	// Show every check of the harness as a child item, with the status Kani reported for it
+	private reportChecks(
+		item: vscode.TestItem,
+		options: vscode.TestRun,
+		result: HarnessResult,
+	): void {
+		if (this.controller === undefined) {
+			return;
+		}
+
+		const crateRoot = this.getCrateRoot();
+		const checkItems = result.checks.map((check) => {
+			const id = `${item.id}/${check.propertyId || check.checkNumber}`;
+			const location =
+				getCheckLocation(check, crateRoot) ?? new vscode.Location(item.uri!, item.range!);
+			const checkItem = this.controller!.createTestItem(
+				id,
+				`${check.propertyClass}: ${check.description}`,
+				location.uri,
+			);
+			checkItem.range = location.range;
+			checkItem.description = check.status;
+			testData.set(checkItem, new TestCheck(item, check));
+			return { checkItem, check, location };
+		});
+		item.children.replace(checkItems.map(({ checkItem }) => checkItem));
+
+		for (const { checkItem, check, location } of checkItems) {
+			const message = new TestMessage(`${check.status}: ${check.description}`);
+			message.location = location;
+			if (check.status === 'UNREACHABLE') {
+				options.skipped(checkItem);
+			} else if (check.status === 'UNDETERMINED') {
+				options.errored(checkItem, message);
+			} else if (isFailedCheck(check)) {
+				options.failed(checkItem, message);
 			} else {
-				options.errored(
-					item,
-					new TestMessage(
-						'Kani executable was unable to detect or run harness. Please check Output (Kani) channel in the Output window for more information.',
-					),
-				);
+				options.passed(checkItem);
 			}
 		}
 	}
 
+	// Mark the harness as errored when its verification was stopped by the user
+	reportCancellation(item: vscode.TestItem, options: vscode.TestRun): void {
+		const message = `Verification of ${this.harness_name} was cancelled by user`;
+		options.appendOutput(`${message}\r\n`, undefined, item);
+		options.errored(item, new TestMessage(message));
+	}
+
 	// Run kani on the file, crate with given arguments
 	async evaluate(
 		harness_name: string,
 		package_name: string,
 		stubbing?: boolean,
 		qualified_name?: string,
-	): Promise<number> {
+		runOptions?: KaniRunOptions,
+	): Promise<HarnessVerification> {
 		if (vscode.workspace.workspaceFolders !== undefined) {
 			if (stubbing === false || undefined || NaN) {
-				const outputKani: number = await runKaniHarnessInterface(
+				const outputKani: HarnessVerification = await runKaniHarnessInterface(
 					harness_name,
 					package_name,
 					false,
 					undefined,
 					qualified_name,
+					runOptions,
 				);
 				return outputKani;
 			} else {
-				const outputKani: number = await runKaniHarnessInterface(
+				const outputKani: HarnessVerification = await runKaniHarnessInterface(
 					harness_name,
 					package_name,
 					false,
 					stubbing,
 					qualified_name,
+					runOptions,
 				);
 				return outputKani;
 			}
 		}
 
-		return 0;
+		return { statusCode: 0, result: createEmptyHarnessResult(harness_name) };
 	}
 
 	// Run kani on Bolero test case, file, crate with given arguments
@@ -390,63 +757,281 @@ export class TestCase {
 		package_name: string,
 		stubbing?: boolean,
 		qualified_name?: string,
-	): Promise<number> {
+		runOptions?: KaniRunOptions,
+	): Promise<HarnessVerification> {
 		if (vscode.workspace.workspaceFolders !== undefined) {
 			if (stubbing === false || undefined || NaN) {
-				const outputKaniTest: number = await runKaniHarnessInterface(
+				const outputKaniTest: HarnessVerification = await runKaniHarnessInterface(
 					harness_name,
 					package_name,
 					true,
 					false,
 					qualified_name,
+					runOptions,
 				);
 				return outputKaniTest;
 			} else {
-				const outputKaniTest: number = await runKaniHarnessInterface(
+				const outputKaniTest: HarnessVerification = await runKaniHarnessInterface(
 					harness_name,
 					package_name,
 					true,
 					stubbing,
 					qualified_name,
+					runOptions,
 				);
 				return outputKaniTest;
 			}
 		}
-		return 0;
+		return { statusCode: 0, result: createEmptyHarnessResult(harness_name) };
+	}
+}
+
+/**
+ * A property checked by Kani for a harness, shown as a child item of the harness
+ *
+ * @param harness - Test item of the harness that checks the property
+ * @param check - Result of the check in the last verification of the harness
+ */
+export class TestCheck {
+	constructor(readonly harness: vscode.TestItem, readonly check: CheckResult) {}
+}
+
+// A harness queued for verification along with its test item
+export interface QueuedTestCase {
+	test: vscode.TestItem;
+	data: TestCase;
+}
+
+/**
+ * Group the queued harnesses that can be verified by the same `cargo kani` invocation, i.e
+ * harnesses of the same package and crate root that need the same flags. Harnesses with a time
+ * limit are verified on their own, since the limit of a Kani invocation applies to all of its
+ * harnesses.
+ *
+ * @param queue - harnesses queued for verification
+ * @returns - batches of harnesses, in the order they were queued
+ */
+export function createTestBatches(queue: QueuedTestCase[]): QueuedTestCase[][] {
+	const batches = new Map<string, QueuedTestCase[]>();
+	for (const entry of queue) {
+		const key =
+			entry.data.getTimeoutSeconds() > 0
+				? entry.test.id
+				: [
+						entry.data.getCrateRoot(),
+						entry.data.package_name,
+						entry.data.proof_boolean,
+						Boolean(entry.data.stubbing_request),
+						entry.data.getKaniArgs().join(' '),
+				  ].join('|');
+		const batch = batches.get(key);
+		if (batch) {
+			batch.push(entry);
+		} else {
+			batches.set(key, [entry]);
+		}
+	}
+	return [...batches.values()];
+}
+
+/**
+ * Verify a batch of harnesses with a single Kani invocation and report the result of each harness
+ * on its own test item. Harnesses that are missing from Kani's results are verified one by one.
+ * If Kani stops before verifying every harness, the results it printed until then are reported.
+ *
+ * @param batch - harnesses of the same package that need the same flags
+ * @param options - Test run that the harnesses belong to
+ * @param jobs - number of harnesses Kani verifies in parallel
+ * @param token - cancellation token of the test run
+ * @param profileArgs - arguments the run profile passes to Kani, i.e to generate concrete tests
+ */
+export async function runTestBatch(
+	batch: QueuedTestCase[],
+	options: vscode.TestRun,
+	jobs: number,
+	token?: vscode.CancellationToken,
+	profileArgs: string[] = [],
+): Promise<void> {
+	const start: number = Date.now();
+	const { data: firstCase } = batch[0];
+	for (const { data } of batch) {
+		data.lastPlaybackTest = undefined;
+		data.lastCoverage = [];
+	}
+
+	// Kani prints a header before verifying each harness, which is used to attribute the output
+	// that follows it to the right test item
+	let current: QueuedTestCase | undefined;
+	const outputLines: string[] = [];
+	const runOptions: KaniRunOptions = {
+		token: token,
+		cwd: firstCase.getCrateRoot(),
+		extraArgs: [...firstCase.getKaniArgs(), ...profileArgs],
+		onOutput: (line: string) => {
+			outputLines.push(line);
+			const harnessName = parseHarnessHeader(stripAnsi(line));
+			if (harnessName !== undefined) {
+				current = findBatchEntry(harnessName, batch);
+			}
+			if (current) {
+				const { test: currentTest, data: currentCase } = current;
+				currentCase.recordOutputLine(line);
+				const location = new vscode.Location(currentTest.uri!, currentTest.range!);
+				options.appendOutput(`${line}\r\n`, location, currentTest);
+			} else {
+				options.appendOutput(`${line}\r\n`);
+			}
+		},
+	};
+
+	let execution: KaniExecution | undefined;
+	let errorMessage: string | undefined;
+	try {
+		execution = await runKaniBatchInterface(
+			batch.map(({ data }) => data.expandFunctionName()),
+			firstCase.package_name,
+			!firstCase.proof_boolean,
+			firstCase.stubbing_request,
+			jobs,
+			runOptions,
+		);
+	} catch (error) {
+		errorMessage = (error as Error).message;
+	}
+	const duration = Date.now() - start;
+
+	// The harnesses Kani finished verifying before it stopped are reported with their results
+	const output = execution?.output ?? parseKaniTextOutput(stripAnsi(outputLines.join('\n')));
+	const harnesses = execution
+		? output.harnesses
+		: output.harnesses.filter((harness) => harness.status !== 'UNKNOWN');
+	const results = new Map<QueuedTestCase, HarnessResult>();
+	for (const harness of harnesses) {
+		const entry = findBatchEntry(harness.harness, batch);
+		if (entry !== undefined && !results.has(entry)) {
+			results.set(entry, harness);
+		}
+	}
+
+	const unreported: QueuedTestCase[] = [];
+	for (const entry of batch) {
+		const { test, data } = entry;
+		if (token?.isCancellationRequested) {
+			data.reportCancellation(test, options);
+			continue;
+		}
+		const result = results.get(entry);
+		if (execution === undefined && result === undefined) {
+			const emptyResult = createEmptyHarnessResult(data.harness_name);
+			data.reportResult(test, options, -1, emptyResult, duration, errorMessage);
+			continue;
+		}
+		if (result === undefined || result.status === 'UNKNOWN') {
+			unreported.push({ test, data });
+			continue;
+		}
+		const statusCode = result.status === 'SUCCESSFUL' ? 0 : 1;
+		data.lastCoverage = output.harnessCoverage?.[result.harness] ?? [];
+		const harnessDuration =
+			result.verificationTime === undefined ? duration : result.verificationTime * 1000;
+		data.reportResult(test, options, statusCode, result, harnessDuration);
 	}
+
+	for (const { test, data } of unreported) {
+		await data.run(test, options, token, profileArgs);
+	}
+}
+
+// Find the harness of the batch that Kani reports under the name. Kani reports the full path of
+// the harness, which can differ from the name expanded by the extension, so the name is matched
+// exactly first, then by the end of the path. A harness is only matched by the end of its path if
+// no other harness of the batch matches the same way.
+function findBatchEntry(reportedName: string, batch: QueuedTestCase[]): QueuedTestCase | undefined {
+	const matchers: ((testCase: TestCase) => boolean)[] = [
+		(testCase): boolean => reportedName === testCase.expandFunctionName(),
+		(testCase): boolean => reportedName.endsWith(`::${testCase.expandFunctionName()}`),
+		(testCase): boolean =>
+			reportedName === testCase.harness_name || reportedName.endsWith(`::${testCase.harness_name}`),
+	];
+	for (const matches of matchers) {
+		const entries = batch.filter((entry) => matches(entry.data));
+		if (entries.length === 1) {
+			return entries[0];
+		}
+		if (entries.length > 1) {
+			return undefined;
+		}
+	}
+	return undefined;
 }
 
 /**
  * A failed case contains additional information about the property that has failed
  */
 class FailedCase extends TestCase {
-	private readonly failed_checks: string;
-	private readonly failed_message?: string;
+	private readonly result: HarnessResult;
 
 	constructor(
-		failed_checks: string,
+		result: HarnessResult,
 		file_name: string,
 		harness_name: string,
 		package_name: string,
 		harness_type: boolean,
-		failed_message?: string,
 	) {
 		super(file_name, harness_name, package_name, harness_type);
-		this.failed_checks = failed_checks;
-		if (failed_message) {
-			this.failed_message = failed_message;
-		}
+		this.result = result;
 	}
 
 	getLabel(): string {
 		return `${this.harness_name}`;
 	}
 
-	handleFailure(): TestMessage {
-		const failureMessage: MarkdownString = this.appendLink(this.failed_checks);
-		const finalFailureMessage: MarkdownString = this.appendConcretePlaybackLink(failureMessage);
-		const messageWithLink = new TestMessage(finalFailureMessage);
-		return messageWithLink;
+	// Descriptions of the failed checks, one per line
+	getFailedDescriptions(): string {
+		return this.result.checks
+			.filter(isFailedCheck)
+			.map((check) => `${check.description}\r\n`)
+			.join('');
+	}
+
+	/**
+	 * Create one failure message per failed check, placed at the source location of the check so
+	 * that the peek view opens where the check failed. The first message also lists every failed
+	 * check in a table with links to their source, and the report and concrete playback links.
+	 *
+	 * @param harnessLocation - location of the harness, used for checks without a source location
+	 * @param crateRoot - directory Kani ran in, which the check locations are relative to
+	 * @returns the messages, in the order Kani reported the checks
+	 */
+	handleFailure(harnessLocation: vscode.Location, crateRoot: string): TestMessage[] {
+		const failedChecks: string = createFailedChecksTable(this.result, (check) => {
+			const location = getCheckLocation(check, crateRoot);
+			if (location === undefined) {
+				return undefined;
+			}
+			const { line, character } = location.range.start;
+			return `${location.uri.toString()}#L${line + 1},${character + 1}`;
+		});
+		const failureMessage: MarkdownString = this.appendLink(failedChecks);
+		const finalFailureMessage: MarkdownString = this.appendTraceLink(
+			this.appendConcretePlaybackLink(failureMessage),
+		);
+
+		const messages = this.result.checks.filter(isFailedCheck).map((check, index) => {
+			const message = new TestMessage(
+				index === 0
+					? finalFailureMessage
+					: `${check.propertyClass}: ${check.description} (${check.status})`,
+			);
+			message.location = getCheckLocation(check, crateRoot) ?? harnessLocation;
+			return message;
+		});
+		if (messages.length === 0) {
+			const message = new TestMessage(finalFailureMessage);
+			message.location = harnessLocation;
+			return [message];
+		}
+		return messages;
 	}
 
 	// Add link and present to the user as the diff message
@@ -488,6 +1073,24 @@ class FailedCase extends TestCase {
 		return sample;
 	}
 
+	// Add link to explore the counterexample in the trace viewer
+	appendTraceLink(sample: MarkdownString): MarkdownString {
+		sample.appendMarkdown('<br>');
+		const args = [
+			{
+				harnessName: this.harness_name,
+				harnessFile: this.file_name,
+				harnessType: this.proof_boolean,
+			},
+		];
+		const traceUri: Uri = Uri.parse(
+			`command:Kani.showTrace?${encodeURIComponent(JSON.stringify(args))}`,
+		);
+		sample.appendMarkdown(`[Explore counterexample trace for ${this.harness_name}](${traceUri})`);
+
+		return sample;
+	}
+
 	// create the failure ui in markdown text with link
 	makeMarkdown(failedChecks: string): MarkdownString {
 		const placeholderMarkdown: vscode.MarkdownString = new vscode.MarkdownString('', true);
@@ -498,25 +1101,15 @@ class FailedCase extends TestCase {
 			return placeholderMarkdown;
 		}
 
-		const lines: string[] = failedChecks.split('\n');
-
-		for (const line of lines) {
-			placeholderMarkdown.appendMarkdown(line);
-			placeholderMarkdown.appendMarkdown('<br>');
-		}
+		// The table of failed checks must be followed by a blank line to end it
+		placeholderMarkdown.appendMarkdown(`${failedChecks}\n\n`);
 
 		return placeholderMarkdown;
 	}
 }
 
 async function getCurrentRustFileMetadata(item: any): Promise<FileMetaData | undefined> {
-	const workspaceFolders = vscode.workspace.workspaceFolders;
-
-	if (!workspaceFolders || workspaceFolders.length === 0) {
-		return undefined;
-	}
-
-	const workspace = workspaceFolders[0];
+	const workspace = vscode.workspace.getWorkspaceFolder(item.uri);
 
 	if (!workspace) {
 		return undefined;
@@ -529,18 +1122,18 @@ async function getCurrentRustFileMetadata(item: any): Promise<FileMetaData | und
 	const crateName = path.basename(workspacePath);
 	const cratePath = workspacePath;
 
-	const fs = require('fs');
-	let tomlsInFolder = '';
-	let tomlFilePath: string = filePath;
-
-	do {
-		tomlFilePath = path.dirname(tomlFilePath);
-		tomlsInFolder = fs
-			.readdirSync(tomlFilePath)
-			.filter((file: string) => path.extname(file) === '.toml');
-	} while (!tomlsInFolder.includes('Cargo.toml') && tomlFilePath.length > 0);
+	// cargo metadata knows about virtual manifests, renamed packages and targets, the closest
+	// Cargo.toml is only used if it is not available
+	const fileTarget = await getFileTarget(getCrateRoot(item.uri), filePath);
+	const filePackage =
+		fileTarget?.package.name ?? (await getPackageName(getPackageRootFromFilePath(filePath)));
 
-	const filePackage = await getPackageName(tomlFilePath);
+	// The target is only passed to Kani if it understands the target selection flags
+	const capabilities = await getKaniCapabilities();
+	const targetArgs =
+		fileTarget !== undefined && supportsFeature(capabilities, 'targetSelection')
+			? getTargetArgs(fileTarget.target)
+			: [];
 
 	const file_metadata: FileMetaData = {
 		fileName: fileName,
@@ -548,6 +1141,7 @@ async function getCurrentRustFileMetadata(item: any): Promise<FileMetaData | und
 		filePackage: filePackage,
 		crateName: crateName,
 		cratePath: cratePath,
+		targetArgs: targetArgs,
 	};
 
 	return file_metadata;
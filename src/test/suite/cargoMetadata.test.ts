@@ -0,0 +1,54 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import {
+	findFileTarget,
+	getLocalPackageRoots,
+	getTargetArgs,
+	parseCargoMetadata,
+} from '../../model/cargoMetadata';
+import { cargoMetadataOutput } from '../test-programs/kaniOutputs';
+
+suite('Test cargo metadata', () => {
+	test('Test if files are mapped to the package and target that compiles them', () => {
+		const workspace = parseCargoMetadata(cargoMetadataOutput);
+		const targetOf = (filePath: string): string[] | undefined => {
+			const fileTarget = findFileTarget(workspace, filePath);
+			return fileTarget && [fileTarget.package.name, fileTarget.target.name];
+		};
+
+		assert.strictEqual(workspace.workspaceRoot, '/work');
+		assert.deepStrictEqual(targetOf('/work/crates/core/src/lib.rs'), ['core-utils', 'utils']);
+		assert.deepStrictEqual(targetOf('/work/crates/core/src/parser/mod.rs'), [
+			'core-utils',
+			'utils',
+		]);
+		assert.deepStrictEqual(targetOf('/work/crates/app/src/bin/cli.rs'), ['app', 'app-cli']);
+		assert.deepStrictEqual(targetOf('/work/crates/app/src/bin/args.rs'), ['app', 'app-cli']);
+		assert.deepStrictEqual(targetOf('/work/crates/app/src/config.rs'), ['app', 'app']);
+		assert.strictEqual(targetOf('/work/scripts/gen.rs'), undefined);
+	});
+
+	test('Test if the target arguments select the library or the binary', () => {
+		const workspace = parseCargoMetadata(cargoMetadataOutput);
+		const [core, app] = workspace.packages;
+
+		assert.deepStrictEqual(getTargetArgs(core.targets[0]), ['--lib']);
+		assert.deepStrictEqual(getTargetArgs(app.targets[1]), ['--bin', 'app-cli']);
+		assert.deepStrictEqual(getTargetArgs(core.targets[1]), []);
+	});
+
+	test('Test if the local packages a package depends on are found through path dependencies', () => {
+		const workspace = parseCargoMetadata(cargoMetadataOutput);
+
+		assert.deepStrictEqual(getLocalPackageRoots(workspace, '/work/crates/app'), [
+			'/work/crates/app',
+			'/work/crates/core',
+		]);
+		assert.deepStrictEqual(getLocalPackageRoots(workspace, '/work/crates/core'), [
+			'/work/crates/core',
+		]);
+		assert.strictEqual(getLocalPackageRoots(workspace, '/work/tools'), undefined);
+	});
+});
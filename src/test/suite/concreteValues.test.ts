@@ -0,0 +1,43 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { decodeConcreteValue } from '../../ui/concrete-playback/concreteValues';
+
+suite('Test concrete value decoding', () => {
+	test('Test if integers are decoded from their little-endian bytes', () => {
+		assert.deepStrictEqual(decodeConcreteValue([255, 3, 0, 0], 'u32'), {
+			value: '1023',
+			type: 'u32',
+		});
+		assert.deepStrictEqual(decodeConcreteValue([155, 255, 255, 255, 255, 255, 255, 255], 'i64'), {
+			value: '-101',
+			type: 'i64',
+		});
+		assert.strictEqual(
+			decodeConcreteValue([0, 0, 0, 0, 0, 0, 0, 128], 'isize').value,
+			'-9223372036854775808',
+		);
+		assert.strictEqual(
+			decodeConcreteValue(new Array(16).fill(255), 'u128').value,
+			`${2n ** 128n - 1n}`,
+		);
+	});
+
+	test('Test if booleans, chars and floats are decoded', () => {
+		assert.strictEqual(decodeConcreteValue([1], 'bool').value, 'true');
+		assert.strictEqual(decodeConcreteValue([101, 0, 0, 0], 'char').value, "'e'");
+		assert.strictEqual(decodeConcreteValue([10, 0, 0, 0], 'char').value, "'\\u{a}'");
+		assert.strictEqual(decodeConcreteValue([0, 0, 192, 63], 'f32').value, '1.5');
+	});
+
+	test('Test if values without a matching type are read as unsigned integers', () => {
+		assert.deepStrictEqual(decodeConcreteValue([128]), { value: '128', type: 'u8', guessed: true });
+		assert.deepStrictEqual(decodeConcreteValue([1, 0], 'u32'), {
+			value: '1',
+			type: 'u16',
+			guessed: true,
+		});
+		assert.deepStrictEqual(decodeConcreteValue([1, 2, 3]), { value: '[1, 2, 3]' });
+	});
+});
@@ -0,0 +1,117 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { createEmptyHarnessResult } from '../../model/kaniOutputParser';
+import { CheckResult, HarnessResult } from '../../model/kaniResult';
+import KaniDiagnostics from '../../ui/diagnostics';
+
+// Check of the harness at a line of `src/lib.rs`, or at a file that is not in the crate
+function createCheck(status: string, line: number, file: string = 'src/lib.rs'): CheckResult {
+	return {
+		checkNumber: line,
+		propertyId: `check_add.assertion.${line}`,
+		propertyClass: 'assertion',
+		status,
+		description: `assertion failed on line ${line}`,
+		location: { file, line, column: 5, function: 'check_add' },
+	};
+}
+
+function createResult(checks: CheckResult[]): HarnessResult {
+	return { ...createEmptyHarnessResult('check_add'), status: 'FAILED', checks };
+}
+
+suite('Test Kani diagnostics', () => {
+	const diagnostics = KaniDiagnostics.getInstance();
+	let crateRoot: string;
+	let libUri: vscode.Uri;
+	let harness: { name: string; location: vscode.Location };
+
+	setup(() => {
+		crateRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kani-diagnostics-'));
+		fs.mkdirSync(path.join(crateRoot, 'src'));
+		fs.writeFileSync(path.join(crateRoot, 'src', 'lib.rs'), 'fn check_add() {}\n');
+		libUri = vscode.Uri.file(path.join(crateRoot, 'src', 'lib.rs'));
+		harness = {
+			name: 'check_add',
+			location: new vscode.Location(libUri, new vscode.Range(1, 0, 1, 0)),
+		};
+	});
+
+	teardown(() => {
+		diagnostics.clearHarness('check_add');
+		fs.rmSync(crateRoot, { recursive: true, force: true });
+	});
+
+	test('Test if failed and undetermined checks are published at their location', () => {
+		const result = createResult([
+			createCheck('FAILURE', 5),
+			createCheck('UNDETERMINED', 6),
+			createCheck('UNREACHABLE', 7),
+			createCheck('SUCCESS', 8),
+		]);
+		diagnostics.setHarnessResult('check_add', harness, result, crateRoot);
+
+		const published = vscode.languages.getDiagnostics(libUri);
+		assert.deepStrictEqual(
+			published.map((diagnostic) => [diagnostic.range.start.line, diagnostic.severity]),
+			[
+				[4, vscode.DiagnosticSeverity.Error],
+				[5, vscode.DiagnosticSeverity.Warning],
+			],
+		);
+		assert.strictEqual(published[0].message, 'assertion failed on line 5 (FAILURE)');
+		assert.strictEqual(published[0].source, 'Kani');
+	});
+
+	test('Test if checks outside of the crate are combined on the harness', () => {
+		const result = createResult([
+			createCheck('FAILURE', 5),
+			createCheck('FAILURE', 120, '/rustc/library/core/src/num/mod.rs'),
+			createCheck('UNDETERMINED', 80, '/rustc/library/core/src/ptr/mod.rs'),
+		]);
+		diagnostics.setHarnessResult('check_add', harness, result, crateRoot);
+
+		const published = vscode.languages.getDiagnostics(libUri);
+		assert.deepStrictEqual(
+			published.map((diagnostic) => diagnostic.range.start.line),
+			[4, 1],
+		);
+		assert.ok(published[1].message.startsWith('2 checks outside of the crate did not pass'));
+		assert.strictEqual(published[1].severity, vscode.DiagnosticSeverity.Error);
+	});
+
+	test('Test if the diagnostics are cleared once the harness passes', () => {
+		diagnostics.setHarnessResult(
+			'check_add',
+			harness,
+			createResult([createCheck('FAILURE', 5)]),
+			crateRoot,
+		);
+		assert.strictEqual(vscode.languages.getDiagnostics(libUri).length, 1);
+
+		diagnostics.clearHarness('check_add');
+		assert.strictEqual(vscode.languages.getDiagnostics(libUri).length, 0);
+
+		// A run without failed checks also replaces the diagnostics of the previous run
+		diagnostics.setHarnessResult(
+			'check_add',
+			harness,
+			createResult([createCheck('FAILURE', 5)]),
+			crateRoot,
+		);
+		diagnostics.setHarnessResult(
+			'check_add',
+			harness,
+			createResult([createCheck('UNREACHABLE', 7)]),
+			crateRoot,
+		);
+		assert.strictEqual(vscode.languages.getDiagnostics(libUri).length, 0);
+	});
+});
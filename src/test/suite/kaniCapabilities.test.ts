@@ -0,0 +1,41 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import {
+	compareVersions,
+	parseKaniHelp,
+	parseKaniVersion,
+	supportsFeature,
+} from '../../model/kaniCapabilities';
+import { kaniHelpOutput } from '../test-programs/kaniOutputs';
+
+suite('Test Kani capabilities', () => {
+	test('Test if versions are compared by their components', () => {
+		const version = parseKaniVersion('cargo-kani 0.100.0')!;
+
+		assert.deepStrictEqual(version, { major: 0, minor: 100, patch: 0 });
+		assert.ok(compareVersions(version, { major: 0, minor: 29, patch: 0 }) > 0);
+		assert.ok(compareVersions(parseKaniVersion('0.29')!, version) < 0);
+		assert.strictEqual(parseKaniVersion('unknown'), undefined);
+	});
+
+	test('Test if subcommands, flags and unstable features are read from the help', () => {
+		const capabilities = parseKaniHelp(kaniHelpOutput);
+
+		assert.deepStrictEqual(capabilities.subcommands, ['setup', 'playback', 'help']);
+		assert.deepStrictEqual(capabilities.unstableFeatures, [
+			'async-lib',
+			'concrete-playback',
+			'stubbing',
+			'line-coverage',
+		]);
+		assert.ok(supportsFeature(capabilities, 'report'));
+		assert.ok(supportsFeature(capabilities, 'playback'));
+		assert.ok(supportsFeature(capabilities, 'stubbing'));
+		assert.ok(!supportsFeature(capabilities, 'coverage'));
+		assert.ok(!supportsFeature(capabilities, 'list'));
+		assert.ok(!supportsFeature(capabilities, 'jobs'));
+		assert.ok(supportsFeature(parseKaniHelp('  -j, --jobs [<JOBS>]\n'), 'jobs'));
+	});
+});
@@ -0,0 +1,30 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { getHarnessVerification } from '../../model/kaniCommandCreate';
+import { parseKaniTextOutput } from '../../model/kaniOutputParser';
+import { batchVerificationOutput } from '../test-programs/kaniOutputs';
+
+suite('Test harness results of a Kani execution', () => {
+	test('Test if the result of the harness is picked by its name', () => {
+		const output = parseKaniTextOutput(batchVerificationOutput);
+		const verification = getHarnessVerification({ statusCode: 1, output }, 'check_add');
+		assert.strictEqual(verification.statusCode, 0);
+		assert.strictEqual(verification.result.harness, 'funs::check_add');
+		assert.strictEqual(
+			getHarnessVerification({ statusCode: 1, output }, 'check_sub').statusCode,
+			1,
+		);
+	});
+
+	test('Test if the status code of Kani is kept when no result matches the harness', () => {
+		const output = parseKaniTextOutput(batchVerificationOutput);
+		for (const statusCode of [0, 1]) {
+			const verification = getHarnessVerification({ statusCode, output }, 'check_mul');
+			assert.strictEqual(verification.statusCode, statusCode);
+			assert.strictEqual(verification.result.harness, 'check_mul');
+			assert.strictEqual(verification.result.status, 'UNKNOWN');
+		}
+	});
+});
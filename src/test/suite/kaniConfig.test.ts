@@ -0,0 +1,53 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { getKaniConfigArgs, mergeKaniConfigs, parseKaniConfig } from '../../model/kaniConfig';
+
+suite('Test Kani configuration', () => {
+	const workspaceConfig = parseKaniConfig({
+		kani: {
+			flags: { 'default-unwind': 2, features: ['verify'], 'no-default-features': true },
+			unstable: { stubbing: true },
+		},
+	});
+	const packageConfig = parseKaniConfig({
+		kani: {
+			flags: { 'default-unwind': 4, solver: 'kissat', 'no-default-features': false },
+			harness: { check_parse: { flags: { 'default-unwind': 10 }, unstable: { stubbing: false } } },
+		},
+	});
+	const config = mergeKaniConfigs(workspaceConfig, packageConfig);
+
+	test('Test if the package configuration overrides the workspace configuration', () => {
+		assert.deepStrictEqual(getKaniConfigArgs(config), [
+			'--default-unwind',
+			'4',
+			'--features',
+			'verify',
+			'--solver',
+			'kissat',
+			'-Z',
+			'stubbing',
+		]);
+	});
+
+	test('Test if harnesses are configured by their plain or qualified name', () => {
+		const expected = ['--default-unwind', '10', '--features', 'verify', '--solver', 'kissat'];
+
+		assert.deepStrictEqual(getKaniConfigArgs(config, 'check_parse'), expected);
+		assert.deepStrictEqual(getKaniConfigArgs(config, 'parser::proofs::check_parse'), expected);
+		assert.deepStrictEqual(getKaniConfigArgs(config, 'check_parse', 'playback'), [
+			'--features',
+			'verify',
+		]);
+	});
+
+	test('Test if a missing or malformed table gives an empty configuration', () => {
+		assert.deepStrictEqual(getKaniConfigArgs(parseKaniConfig(undefined)), []);
+		assert.deepStrictEqual(
+			getKaniConfigArgs(parseKaniConfig({ kani: { flags: { unwind: { max: 3 } }, unstable: 1 } })),
+			[],
+		);
+	});
+});
@@ -0,0 +1,81 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { findKaniItemAt, getEffectiveSettings } from '../../ui/kaniHoverProvider';
+import { loadParser } from '../../ui/sourceCodeParser';
+
+const source = `mod checks {
+    #[kani::proof]
+    #[kani::unwind(10)]
+    #[kani::solver(kissat)]
+    fn check_sum() {
+        let n: u8 = kani::any();
+        kani::cover!(n > 5);
+    }
+}
+
+fn helper() {
+    let x: u8 = kani::any();
+}
+
+#[doc = "Used by kani::proof harnesses"]
+fn other_helper() {
+    let y: u8 = kani::any();
+}
+
+#[kani::proof_for_contract(helper)]
+fn check_helper() {
+    let z: u8 = kani::any();
+}
+`;
+
+suite('Test Kani hover documentation', () => {
+	test('Test if attributes are found with the attributes of their harness', async () => {
+		const tree = (await loadParser()).parse(source);
+		const item = findKaniItemAt(tree.rootNode, { row: 2, column: 14 });
+		assert.strictEqual(item?.name, 'kani::unwind');
+		assert.strictEqual(item?.doc.kind, 'attribute');
+		assert.deepStrictEqual(item?.harness, {
+			name: 'checks::check_sum',
+			attributes: ['#[kani::proof]', '#[kani::unwind(10)]', '#[kani::solver(kissat)]'],
+		});
+	});
+
+	test('Test if API calls are found with their harness', async () => {
+		const tree = (await loadParser()).parse(source);
+		assert.strictEqual(findKaniItemAt(tree.rootNode, { row: 5, column: 20 })?.name, 'kani::any');
+		assert.strictEqual(
+			findKaniItemAt(tree.rootNode, { row: 6, column: 15 })?.harness?.name,
+			'checks::check_sum',
+		);
+		// Functions without the proof attribute are not harnesses
+		assert.strictEqual(findKaniItemAt(tree.rootNode, { row: 11, column: 20 })?.harness, undefined);
+		assert.strictEqual(findKaniItemAt(tree.rootNode, { row: 5, column: 12 }), undefined);
+	});
+
+	test('Test if only the proof attributes make a function a harness', async () => {
+		const tree = (await loadParser()).parse(source);
+		assert.strictEqual(findKaniItemAt(tree.rootNode, { row: 16, column: 20 })?.harness, undefined);
+		assert.strictEqual(
+			findKaniItemAt(tree.rootNode, { row: 21, column: 20 })?.harness?.name,
+			'check_helper',
+		);
+	});
+
+	test('Test if flags override the attributes of the harness', () => {
+		const attributes = ['#[kani::proof]', '#[kani::unwind(10)]'];
+		assert.deepStrictEqual(getEffectiveSettings(attributes, { 'default-unwind': 4 }), {
+			unwind: { value: '10', source: '`#[kani::unwind]`' },
+			solver: { source: "Kani's default solver" },
+		});
+		assert.deepStrictEqual(getEffectiveSettings(attributes, { unwind: 2, solver: 'minisat' }), {
+			unwind: { value: '2', source: '`unwind` in the Kani configuration' },
+			solver: { value: 'minisat', source: '`solver` in the Kani configuration' },
+		});
+		assert.strictEqual(
+			getEffectiveSettings(['#[kani::proof]'], { 'default-unwind': 4 }).unwind.value,
+			'4',
+		);
+	});
+});
@@ -0,0 +1,20 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { sortBundlesByVersion } from '../../model/kaniInstallations';
+
+suite('Test Kani installations', () => {
+	test('Test if the bundles of ~/.kani are sorted from the newest version', () => {
+		assert.deepStrictEqual(
+			sortBundlesByVersion([
+				'kani-0.9.0',
+				'toolchain',
+				'kani-0.40.0',
+				'kani-0.100.1',
+				'kani-0.100.0',
+			]),
+			['kani-0.100.1', 'kani-0.100.0', 'kani-0.40.0', 'kani-0.9.0', 'toolchain'],
+		);
+	});
+});
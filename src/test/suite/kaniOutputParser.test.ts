@@ -0,0 +1,173 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	createFailedChecksMessage,
+	createFailedChecksTable,
+	parseKaniJsonOutput,
+	parseKaniTextOutput,
+	parsePlaybackTestName,
+} from '../../model/kaniOutputParser';
+import { parseVerificationOutput } from '../../model/kaniRunner';
+import {
+	batchVerificationOutput,
+	coverageOutput,
+	failedVerificationOutput,
+	jsonVerificationOutput,
+	reportOutput,
+	unreachableVerificationOutput,
+} from '../test-programs/kaniOutputs';
+
+suite('Test Kani output parsing', () => {
+	test('Test if checks are parsed from the text output', () => {
+		const output = parseKaniTextOutput(failedVerificationOutput);
+		assert.strictEqual(output.harnesses.length, 1);
+
+		const result = output.harnesses[0];
+		assert.strictEqual(result.harness, 'estimate_size');
+		assert.strictEqual(result.status, 'FAILED');
+		assert.strictEqual(result.verificationTime, 0.31);
+		assert.deepStrictEqual(result.summary, {
+			total: 3,
+			failed: 1,
+			unreachable: 1,
+			undetermined: 0,
+		});
+		assert.deepStrictEqual(result.checks[1], {
+			checkNumber: 2,
+			propertyId: 'estimate_size.arithmetic_overflow.1',
+			propertyClass: 'arithmetic_overflow',
+			status: 'FAILURE',
+			description: 'attempt to add with overflow',
+			location: { file: 'src/lib.rs', line: 14, column: 13, function: 'estimate_size' },
+		});
+	});
+
+	test('Test if only failed checks are in the failure message', () => {
+		const result = parseKaniTextOutput(failedVerificationOutput).harnesses[0];
+		const message = createFailedChecksMessage(result);
+		assert.ok(message.includes('Property - estimate_size.arithmetic_overflow.1'));
+		assert.ok(message.includes('Property - estimate_size.assertion.2'));
+		assert.ok(!message.includes('Property - estimate_size.assertion.1'));
+	});
+
+	test('Test if failed checks are rendered as a table with links to their source', () => {
+		const result = parseKaniTextOutput(failedVerificationOutput).harnesses[0];
+		const table = createFailedChecksTable(result, (check) =>
+			check.status === 'FAILURE' ? `file:///crate/${check.location?.file}` : undefined,
+		);
+		const rows = table.split('\n');
+		assert.strictEqual(rows.length, 4);
+		assert.strictEqual(rows[0], '| Property | Description | Status | Location |');
+		assert.ok(
+			rows[2].startsWith('| arithmetic_overflow | attempt to add with overflow | FAILURE | ['),
+		);
+		assert.ok(rows[2].endsWith('](file:///crate/src/lib.rs) |'));
+		assert.ok(
+			rows[3].startsWith('| assertion | assertion failed: x > 0 | UNREACHABLE | src/lib.rs'),
+		);
+	});
+
+	test('Test if the results of a batch are split per harness', () => {
+		const output = parseKaniTextOutput(batchVerificationOutput);
+		assert.deepStrictEqual(
+			output.harnesses.map((harness) => [harness.harness, harness.status, harness.checks.length]),
+			[
+				['funs::check_add', 'SUCCESSFUL', 1],
+				['funs::check_sub', 'FAILED', 1],
+			],
+		);
+		assert.strictEqual(output.harnesses[1].verificationTime, 0.11);
+	});
+
+	test('Test if coverage results are parsed from the text output', () => {
+		const output = parseKaniTextOutput(coverageOutput);
+		assert.strictEqual(output.harnesses[0].status, 'SUCCESSFUL');
+		assert.deepStrictEqual(output.coverage, [
+			{ filePath: '/home/ubuntu/test-crate/src/lib.rs', lineNumber: 5, coverageStatus: 'FULL' },
+			{ filePath: '/home/ubuntu/test-crate/src/lib.rs', lineNumber: 6, coverageStatus: 'PARTIAL' },
+			{ filePath: '/home/ubuntu/test-crate/src/lib.rs', lineNumber: 8, coverageStatus: 'NONE' },
+		]);
+		assert.deepStrictEqual(output.harnessCoverage, { check_coverage: output.coverage });
+	});
+
+	test('Test if the report path is parsed from the text output', () => {
+		assert.strictEqual(
+			parseKaniTextOutput(reportOutput).reportPath,
+			'/home/ubuntu/test-crate/target/report-check_report/html/index.html',
+		);
+	});
+
+	test('Test if the name of the concrete test written by Kani is parsed', () => {
+		assert.strictEqual(
+			parsePlaybackTestName(
+				'INFO: Now modifying the source code to include the concrete playback unit test `kani_concrete_playback_estimate_size_14615086421508420155`.',
+			),
+			'kani_concrete_playback_estimate_size_14615086421508420155',
+		);
+		assert.strictEqual(parsePlaybackTestName('Checking harness estimate_size...'), undefined);
+	});
+
+	test('Test if the JSON output is parsed into the same model', () => {
+		const results = parseKaniJsonOutput(jsonVerificationOutput);
+		assert.strictEqual(results.length, 1);
+		assert.strictEqual(results[0].status, 'FAILED');
+		assert.strictEqual(results[0].summary.failed, 1);
+		assert.strictEqual(results[0].checks[1].propertyClass, 'arithmetic_overflow');
+		assert.deepStrictEqual(results[0].checks[1].location, {
+			file: 'src/lib.rs',
+			line: 14,
+			column: 13,
+			function: 'estimate_size',
+		});
+	});
+
+	test('Test if harnesses with only unreachable checks are not failed', () => {
+		const [textResult] = parseKaniTextOutput(unreachableVerificationOutput).harnesses;
+		assert.strictEqual(textResult.status, 'SUCCESSFUL');
+		assert.deepStrictEqual(textResult.summary, {
+			total: 2,
+			failed: 0,
+			unreachable: 2,
+			undetermined: 0,
+		});
+
+		// Without a status, the status is derived from the checks
+		const [jsonResult] = parseKaniJsonOutput(
+			JSON.stringify({
+				harnesses: [
+					{
+						harness: 'check_guard',
+						checks: textResult.checks.map((check) => ({
+							property: check.propertyId,
+							status: check.status,
+							description: check.description,
+						})),
+					},
+				],
+			}),
+		);
+		assert.strictEqual(jsonResult.status, 'SUCCESSFUL');
+		assert.strictEqual(jsonResult.summary.failed, 0);
+	});
+
+	test('Test if the text output is used when the JSON output has no harnesses', () => {
+		const jsonPath = path.join(os.tmpdir(), `kani-results-test-${process.pid}.json`);
+		fs.writeFileSync(jsonPath, JSON.stringify({ verification_results: [] }));
+
+		const output = parseVerificationOutput(failedVerificationOutput, jsonPath);
+		assert.strictEqual(output.harnesses.length, 1);
+		assert.strictEqual(output.harnesses[0].harness, 'estimate_size');
+		assert.strictEqual(output.harnesses[0].checks.length, 3);
+		assert.ok(!fs.existsSync(jsonPath));
+
+		assert.strictEqual(
+			parseVerificationOutput(failedVerificationOutput, jsonPath).harnesses.length,
+			1,
+		);
+	});
+});
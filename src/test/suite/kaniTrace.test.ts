@@ -0,0 +1,43 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { getTraceVariables, parseKaniTraces } from '../../model/kaniTrace';
+import { traceOutput } from '../test-programs/kaniOutputs';
+
+suite('Test counterexample trace parsing', () => {
+	test('Test if the steps of the trace are parsed', () => {
+		const traces = parseKaniTraces(traceOutput);
+		assert.strictEqual(traces.length, 1);
+		assert.strictEqual(traces[0].propertyId, 'estimate_size.arithmetic_overflow.1');
+		assert.deepStrictEqual(
+			traces[0].steps.map((step) => [step.kind, step.label, step.depth, step.location?.line]),
+			[
+				['assignment', 'x = 4095u', 0, 10],
+				['call', 'Function call: add', 0, 10],
+				['assignment', 'a = 4095u', 1, 4],
+				['return', 'Function return: add', 0, 4],
+				['assignment', 'x = 4294967295u', 0, 14],
+				['failure', 'Violated property: attempt to add with overflow', 0, 14],
+			],
+		);
+		assert.deepStrictEqual(traces[0].steps[5].location, {
+			file: 'src/lib.rs',
+			line: 14,
+			column: undefined,
+			function: 'estimate_size',
+		});
+	});
+
+	test('Test if variables have their latest value at a step', () => {
+		const steps = parseKaniTraces(traceOutput)[0].steps;
+		assert.deepStrictEqual(
+			[...getTraceVariables(steps, 2)],
+			[
+				['x', '4095u'],
+				['a', '4095u'],
+			],
+		);
+		assert.strictEqual(getTraceVariables(steps, 5).get('x'), '4294967295u');
+	});
+});
@@ -0,0 +1,23 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { linkSourceLocations } from '../../ui/outputManager';
+
+suite('Test Kani output channel', () => {
+	test('Test if relative source locations are resolved against the crate', () => {
+		const output = 'Location: src/lib.rs:10:5 in function check_add';
+
+		assert.strictEqual(
+			linkSourceLocations(output, '/home/user/crate'),
+			'Location: /home/user/crate/src/lib.rs:10:5 in function check_add',
+		);
+	});
+
+	test('Test if absolute source locations are left unchanged', () => {
+		const output = "thread 'main' panicked at /rustc/library/core/src/num/mod.rs:1:1\n";
+
+		assert.strictEqual(linkSourceLocations(output, '/home/user/crate'), output);
+		assert.strictEqual(linkSourceLocations('src/lib.rs:10:5'), 'src/lib.rs:10:5');
+	});
+});
@@ -0,0 +1,33 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { resolveRequestPath } from '../../ui/reportView/reportServer';
+
+suite('Test report server', () => {
+	const directory = path.resolve('/reports/check_report-1');
+	const directories = new Map([['1', directory]]);
+
+	test('Test if requests are resolved to the files of the report', () => {
+		assert.strictEqual(
+			resolveRequestPath(directories, '/1/html/index.html?line=4'),
+			path.join(directory, 'html', 'index.html'),
+		);
+		assert.strictEqual(
+			resolveRequestPath(directories, '/1/html/my%20file.html'),
+			path.join(directory, 'html', 'my file.html'),
+		);
+	});
+
+	test('Test if requests outside of the served directories are rejected', () => {
+		assert.strictEqual(resolveRequestPath(directories, '/2/html/index.html'), undefined);
+		assert.strictEqual(resolveRequestPath(directories, '/1/../../etc/passwd'), undefined);
+		assert.strictEqual(resolveRequestPath(directories, '/1/html/..%2F..%2F..%2Fsecret'), undefined);
+	});
+
+	test('Test if requests with malformed escape sequences are rejected', () => {
+		assert.strictEqual(resolveRequestPath(directories, '/1/%E0%A4%A'), undefined);
+		assert.strictEqual(resolveRequestPath(directories, '/1/html/%'), undefined);
+	});
+});
@@ -4,6 +4,8 @@ import * as assert from 'assert';
 
 import { SourceCodeParser, loadParser } from '../../ui/sourceCodeParser';
 import {
+	harnessWithConcretePlaybackTest,
+	harnessWithLoopConcretePlaybackTest,
 	kaniConcreteTestsMetaData,
 	rustFileWithUnitTestsOnly,
 } from '../test-programs/concretePlaybackTests';
@@ -21,6 +23,7 @@ import {
 	harnessMetadata,
 	kaniProofs,
 	kaniProofsUnsupported,
+	kaniProofsWithTimeout,
 	rustFileWithoutProof,
 } from '../test-programs/sampleRustString';
 
@@ -63,12 +66,77 @@ suite('Test source code parsing', () => {
 		);
 	});
 
+	test('Test if timeout comments are attached to their harness', async () => {
+		const harnesses = await SourceCodeParser.getAttributeFromRustFile(kaniProofsWithTimeout);
+		assert.deepStrictEqual(
+			harnesses.map((harness) => [harness.harnessName, harness.timeout]),
+			[
+				['check_slow', 600],
+				['check_fast', 30],
+				['check_default', undefined],
+			],
+		);
+	});
+
 	test('Test if concrete playback unit tests are picked up and placed at the right location', async () => {
 		assert.deepStrictEqual(
 			await SourceCodeParser.extractKaniTestMetadata(rustFileWithUnitTestsOnly),
 			kaniConcreteTestsMetaData,
 		);
 	});
+	test('Test if concrete values are matched with the kani::any() calls of their harness', async () => {
+		const [test] = await SourceCodeParser.extractConcretePlaybackValues(
+			harnessWithConcretePlaybackTest,
+		);
+		assert.strictEqual(test.testName, 'kani_concrete_playback_check_point_6142839405712');
+		assert.strictEqual(test.harnessName, 'check_point');
+		assert.deepStrictEqual(
+			test.values.map((value) => value.bytes),
+			[[0, 4, 0, 0], [1], [0], [1]],
+		);
+		assert.deepStrictEqual(test.values[0].startPosition, { row: 12, column: 8 });
+		assert.deepStrictEqual(
+			test.anyCalls.map((call) => [call.variable, call.type, call.startPosition.row]),
+			[
+				['x', 'u32', 2],
+				['sign', 'i8', 3],
+				['pair[0]', 'bool', 4],
+				['pair[1]', 'bool', 4],
+			],
+		);
+		assert.ok(test.anyCalls.every((call) => !call.inLoop));
+	});
+	test('Test if the harness of a concrete playback test is found with its modules', async () => {
+		const testName = 'kani_concrete_playback_check_point_6142839405712';
+		assert.strictEqual(
+			await SourceCodeParser.findPlaybackHarness(harnessWithConcretePlaybackTest, testName),
+			'check_point',
+		);
+		assert.strictEqual(
+			await SourceCodeParser.findPlaybackHarness(
+				`mod proofs {\n${harnessWithConcretePlaybackTest}}\n`,
+				testName,
+			),
+			'proofs::check_point',
+		);
+		assert.strictEqual(
+			await SourceCodeParser.findPlaybackHarness(harnessWithConcretePlaybackTest, 'other_test'),
+			undefined,
+		);
+	});
+	test('Test if kani::any() calls in loops and closures are marked', async () => {
+		const [test] = await SourceCodeParser.extractConcretePlaybackValues(
+			harnessWithLoopConcretePlaybackTest,
+		);
+		assert.deepStrictEqual(
+			test.anyCalls.map((call) => [call.variable, call.inLoop]),
+			[
+				['len', false],
+				['byte', true],
+				[undefined, true],
+			],
+		);
+	});
 });
 
 suite('Test Module Extraction and Full Path to Proof', () => {
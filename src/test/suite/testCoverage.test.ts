@@ -0,0 +1,14 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+
+import { mergeCoverageStatus } from '../../ui/coverage/testCoverage';
+
+suite('Test native test coverage', () => {
+	test('Test if the most covered status of a line wins across harnesses', () => {
+		assert.strictEqual(mergeCoverageStatus(undefined, 'NONE'), 'NONE');
+		assert.strictEqual(mergeCoverageStatus('NONE', 'PARTIAL'), 'PARTIAL');
+		assert.strictEqual(mergeCoverageStatus('FULL', 'PARTIAL'), 'FULL');
+		assert.strictEqual(mergeCoverageStatus('PARTIAL', 'FULL'), 'FULL');
+	});
+});
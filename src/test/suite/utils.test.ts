@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: Apache-2.0 OR MIT
 import * as assert from 'assert';
 
-import { getConcatenatedModuleName } from '../../utils';
+import { getConcatenatedModuleName, runWithConcurrency } from '../../utils';
 
 suite('Test Utility functions', () => {
 	suite('Test getConcatenatedModuleName', () => {
@@ -47,4 +47,35 @@ suite('Test Utility functions', () => {
 			assert.strictEqual(result.get('value3'), 'key3');
 		});
 	});
+
+	suite('Test runWithConcurrency', () => {
+		test('should never run more tasks than the limit at the same time', async () => {
+			let running = 0;
+			let maxRunning = 0;
+			const processed: number[] = [];
+
+			await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				processed.push(item);
+				running--;
+			});
+
+			assert.strictEqual(maxRunning, 2);
+			assert.deepStrictEqual(
+				processed.sort((a, b) => a - b),
+				[1, 2, 3, 4, 5],
+			);
+		});
+
+		test('should handle an empty list of items', async () => {
+			let called = false;
+			await runWithConcurrency([], 4, async () => {
+				called = true;
+			});
+
+			assert.strictEqual(called, false);
+		});
+	});
 });
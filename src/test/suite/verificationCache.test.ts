@@ -0,0 +1,106 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { createEmptyHarnessResult } from '../../model/kaniOutputParser';
+import VerificationCache, {
+	createFingerprint,
+	createIdentity,
+} from '../../model/verificationCache';
+
+// In-memory stand-in for the workspace state of the extension
+class MemoryMemento implements vscode.Memento {
+	private values = new Map<string, any>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) : defaultValue;
+	}
+
+	async update(key: string, value: any): Promise<void> {
+		this.values.set(key, value);
+	}
+}
+
+suite('Test verification cache', () => {
+	const cache = VerificationCache.getInstance();
+	let packageRoot: string;
+
+	setup(() => {
+		cache.setStorage(new MemoryMemento());
+		packageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kani-cache-'));
+		fs.writeFileSync(path.join(packageRoot, 'Cargo.toml'), '[package]\nname = "test"\n');
+		fs.mkdirSync(path.join(packageRoot, 'src'));
+		fs.writeFileSync(path.join(packageRoot, 'src', 'lib.rs'), 'fn main() {}\n');
+	});
+
+	teardown(() => {
+		fs.rmSync(packageRoot, { recursive: true, force: true });
+	});
+
+	test('returns a stored result only for the same fingerprint', async () => {
+		const result = createEmptyHarnessResult('check_add');
+		const key = { identity: 'lib.rs|check_add|true', fingerprint: createFingerprint(['0.40.0']) };
+		await cache.store(key, { statusCode: 0, result, duration: 10 });
+
+		assert.strictEqual(cache.get(key)?.statusCode, 0);
+		assert.strictEqual(
+			cache.get({ ...key, fingerprint: createFingerprint(['0.41.0']) }),
+			undefined,
+		);
+
+		await cache.clear();
+		assert.strictEqual(cache.get(key), undefined);
+	});
+
+	test('keeps the latest result of a harness for restoring it', async () => {
+		const result = createEmptyHarnessResult('check_add');
+		const identity = createIdentity('/crate/src/lib.rs', 'check_add', true);
+		const key = { identity, fingerprint: createFingerprint(['0.40.0']) };
+		await cache.store(key, {
+			statusCode: 1,
+			result,
+			duration: 10,
+		});
+
+		assert.strictEqual(cache.get(key)?.statusCode, 1);
+		assert.ok(cache.get(key)!.verifiedAt > 0);
+		assert.ok(cache.hasResultsForFile('/crate/src/lib.rs'));
+		assert.ok(!cache.hasResultsForFile('/crate/src/main.rs'));
+	});
+
+	test('source hash changes with the sources and ignores build artifacts', async () => {
+		const initialHash = await cache.getSourceHash(packageRoot);
+
+		fs.mkdirSync(path.join(packageRoot, 'target'));
+		fs.writeFileSync(path.join(packageRoot, 'target', 'build.rs'), 'fn build() {}\n');
+		cache.clearSourceHashes();
+		assert.strictEqual(await cache.getSourceHash(packageRoot), initialHash);
+
+		fs.writeFileSync(path.join(packageRoot, 'src', 'lib.rs'), 'fn main() { assert!(true); }\n');
+		cache.clearSourceHashes();
+		assert.notStrictEqual(await cache.getSourceHash(packageRoot), initialHash);
+	});
+
+	test('source hash changes with the sources of local dependencies', async () => {
+		const otherRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kani-cache-dependency-'));
+		fs.writeFileSync(path.join(otherRoot, 'lib.rs'), 'pub fn other() {}\n');
+
+		try {
+			const initialHash = await cache.getSourceHash(packageRoot, [otherRoot]);
+			fs.writeFileSync(path.join(otherRoot, 'lib.rs'), 'pub fn other() { panic!() }\n');
+			cache.clearSourceHashes();
+			assert.notStrictEqual(await cache.getSourceHash(packageRoot, [otherRoot]), initialHash);
+		} finally {
+			fs.rmSync(otherRoot, { recursive: true, force: true });
+		}
+	});
+});
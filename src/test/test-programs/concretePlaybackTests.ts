@@ -87,3 +87,46 @@ export const kaniConcreteTestsMetaData: any[] = [
 		},
 	],
 ];
+
+export const harnessWithConcretePlaybackTest = `#[kani::proof]
+fn check_point() {
+    let x: u32 = kani::any();
+    let sign = kani::any::<i8>();
+    let pair: [bool; 2] = kani::any();
+    assert!(x < 1024 || sign < 0 || pair[0]);
+}
+
+#[test]
+fn kani_concrete_playback_check_point_6142839405712() {
+    let concrete_vals: Vec<Vec<u8>> = vec![
+        // 1024
+        vec![0, 4, 0, 0],
+        // 1
+        vec![1],
+        vec![0],
+        vec![1],
+    ];
+    kani::concrete_playback_run(concrete_vals, check_point);
+}
+`;
+
+export const harnessWithLoopConcretePlaybackTest = `#[kani::proof]
+fn check_bytes() {
+    let len: u8 = kani::any();
+    for _ in 0..len {
+        let byte: u8 = kani::any();
+        assert!(byte != 0);
+    }
+    let flags: Vec<bool> = (0..2).map(|_| kani::any()).collect();
+}
+
+#[test]
+fn kani_concrete_playback_check_bytes_1094385760342() {
+    let concrete_vals: Vec<Vec<u8>> = vec![
+        vec![2],
+        vec![1],
+        vec![0],
+    ];
+    kani::concrete_playback_run(concrete_vals, check_bytes);
+}
+`;
@@ -0,0 +1,220 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+
+export const failedVerificationOutput = `Kani Rust Verifier 0.33.0 (cargo plugin)
+Checking harness estimate_size...
+
+RESULTS:
+Check 1: estimate_size.assertion.1
+\t - Status: SUCCESS
+\t - Description: "assertion failed: x < 4096"
+\t - Location: src/lib.rs:12:9 in function estimate_size
+
+Check 2: estimate_size.arithmetic_overflow.1
+\t - Status: FAILURE
+\t - Description: "attempt to add with overflow"
+\t - Location: src/lib.rs:14:13 in function estimate_size
+
+Check 3: estimate_size.assertion.2
+\t - Status: UNREACHABLE
+\t - Description: "assertion failed: x > 0"
+\t - Location: src/lib.rs:16:5 in function estimate_size
+
+
+SUMMARY:
+ ** 1 of 3 failed (1 unreachable)
+Failed Checks: attempt to add with overflow
+ File: "/home/ubuntu/test-crate/src/lib.rs", line 14, in estimate_size
+
+VERIFICATION:- FAILED
+Verification Time: 0.31s
+`;
+
+export const unreachableVerificationOutput = `Kani Rust Verifier 0.33.0 (cargo plugin)
+Checking harness check_guard...
+
+RESULTS:
+Check 1: check_guard.assertion.1
+\t - Status: UNREACHABLE
+\t - Description: "assertion failed: x > 10"
+\t - Location: src/lib.rs:22:9 in function check_guard
+
+Check 2: check_guard.assertion.2
+\t - Status: UNREACHABLE
+\t - Description: "assertion failed: x < 20"
+\t - Location: src/lib.rs:23:9 in function check_guard
+
+
+SUMMARY:
+ ** 0 of 2 failed (2 unreachable)
+
+VERIFICATION:- SUCCESSFUL
+Verification Time: 0.05s
+`;
+
+export const batchVerificationOutput = `Kani Rust Verifier 0.33.0 (cargo plugin)
+Checking harness funs::check_add...
+
+RESULTS:
+Check 1: funs::check_add.assertion.1
+\t - Status: SUCCESS
+\t - Description: "assertion failed: add(a, b) >= a"
+\t - Location: src/funs.rs:10:5 in function funs::check_add
+
+SUMMARY:
+ ** 0 of 1 failed
+
+VERIFICATION:- SUCCESSFUL
+Verification Time: 0.08s
+
+Checking harness funs::check_sub...
+
+RESULTS:
+Check 1: funs::check_sub.arithmetic_overflow.1
+\t - Status: FAILURE
+\t - Description: "attempt to subtract with overflow"
+\t - Location: src/funs.rs:16:5 in function funs::check_sub
+
+SUMMARY:
+ ** 1 of 1 failed
+
+VERIFICATION:- FAILED
+Verification Time: 0.11s
+
+Summary:
+Verification failed for - funs::check_sub
+Complete - 1 successfully verified harnesses, 1 failures, 2 total.
+`;
+
+export const coverageOutput = `Checking harness check_coverage...
+VERIFICATION:- SUCCESSFUL
+
+Coverage Results:
+/home/ubuntu/test-crate/src/lib.rs, 5, FULL
+/home/ubuntu/test-crate/src/lib.rs, 6, PARTIAL
+/home/ubuntu/test-crate/src/lib.rs, 8, NONE
+
+Verification Time: 0.12s
+
+Complete - 1 successfully verified harnesses, 0 failures, 1 total.
+`;
+
+export const reportOutput = `Checking harness check_report...
+VERIFICATION:- FAILED
+Report written to: /home/ubuntu/test-crate/target/report-check_report/html/index.html
+`;
+
+export const jsonVerificationOutput = JSON.stringify({
+	harnesses: [
+		{
+			harness: 'estimate_size',
+			status: 'FAILED',
+			verification_time: 0.31,
+			checks: [
+				{
+					property: 'estimate_size.assertion.1',
+					property_class: 'assertion',
+					status: 'SUCCESS',
+					description: 'assertion failed: x < 4096',
+					location: { file: 'src/lib.rs', line: 12, column: 9, function: 'estimate_size' },
+				},
+				{
+					property: 'estimate_size.arithmetic_overflow.1',
+					status: 'FAILURE',
+					description: 'attempt to add with overflow',
+					location: { file: 'src/lib.rs', line: '14', column: '13', function: 'estimate_size' },
+				},
+			],
+		},
+	],
+});
+
+export const kaniHelpOutput = `Verify a Rust crate. For more information, see https://github.com/model-checking/kani
+
+Usage: cargo kani [OPTIONS] [COMMAND]
+
+Commands:
+  setup     Setup Kani
+  playback  Execute concrete playback testcases of a local package
+  help      Print this message or the help of the given subcommand(s)
+
+Options:
+      --harness <HARNESS_FILTER>
+          If specified, only run harnesses that match this filter
+      --visualize
+          Generate visualizer report to <target-dir>/report/html/index.html
+      --concrete-playback <CONCRETE_PLAYBACK>
+          Generate concrete playback unit test [possible values: print, inplace]
+      --enable-stubbing
+          Enable the stubbing of functions and methods
+  -Z, --unstable <UNSTABLE_FEATURES>
+          Enable an unstable feature [possible values: async-lib, concrete-playback, stubbing, line-coverage]
+  -h, --help
+          Print help (see a summary with '-h')
+`;
+
+// Workspace with a virtual manifest, a package whose library is renamed, a package with a
+// library and a binary that depends on it, and a package that depends on a package outside of
+// the workspace
+export const cargoMetadataOutput = JSON.stringify({
+	packages: [
+		{
+			name: 'core-utils',
+			manifest_path: '/work/crates/core/Cargo.toml',
+			targets: [
+				{ name: 'utils', kind: ['lib'], src_path: '/work/crates/core/src/lib.rs' },
+				{ name: 'integration', kind: ['test'], src_path: '/work/crates/core/tests/integration.rs' },
+			],
+		},
+		{
+			name: 'app',
+			manifest_path: '/work/crates/app/Cargo.toml',
+			targets: [
+				{ name: 'app', kind: ['lib'], src_path: '/work/crates/app/src/lib.rs' },
+				{ name: 'app-cli', kind: ['bin'], src_path: '/work/crates/app/src/bin/cli.rs' },
+			],
+			dependencies: [
+				{ name: 'core-utils', path: '/work/crates/core' },
+				{ name: 'serde', source: 'registry+https://github.com/rust-lang/crates.io-index' },
+			],
+		},
+		{
+			name: 'tools',
+			manifest_path: '/work/tools/Cargo.toml',
+			targets: [{ name: 'tools', kind: ['lib'], src_path: '/work/tools/src/lib.rs' }],
+			dependencies: [{ name: 'shared', path: '/vendor/shared' }],
+		},
+	],
+	workspace_root: '/work',
+	target_directory: '/work/target',
+	version: 1,
+});
+
+export const traceOutput = `Kani Rust Verifier 0.33.0 (cargo plugin)
+Checking harness estimate_size...
+
+Trace for estimate_size.arithmetic_overflow.1:
+
+State 20 file src/lib.rs function estimate_size line 10 thread 0
+----------------------------------------------------
+  x=4095u (00000000 00000000 00001111 11111111)
+
+#### Function call: add (depth 1) ####
+
+State 24 file src/lib.rs function add line 4 thread 0
+----------------------------------------------------
+  a=4095u (00000000 00000000 00001111 11111111)
+
+#### Function return from add (depth 0) ####
+
+State 30 file src/lib.rs function estimate_size line 14 thread 0
+----------------------------------------------------
+  x=4294967295u (11111111 11111111 11111111 11111111)
+
+Violated property:
+  file src/lib.rs function estimate_size line 14 thread 0
+  attempt to add with overflow
+  x + 1
+
+VERIFICATION FAILED
+`;
@@ -494,3 +494,24 @@ export const attributeMetadataUnsupported = [
 		module: undefined,
 	},
 ];
+
+export const kaniProofsWithTimeout = `
+// kani-timeout: 600
+#[kani::proof]
+#[kani::unwind(10)]
+fn check_slow() {
+    let x: u32 = kani::any();
+    assert!(x.wrapping_mul(2) != 1);
+}
+
+#[kani::proof]
+// kani-timeout: 30
+fn check_fast() {
+    assert!(1 == 1);
+}
+
+#[kani::proof]
+fn check_default() {
+    assert!(2 == 2);
+}
+`;
@@ -2,6 +2,11 @@
 // SPDX-License-Identifier: Apache-2.0 OR MIT
 import * as vscode from 'vscode';
 
+import {
+	getKaniCapabilities,
+	getUnsupportedFeatureMessage,
+	supportsFeature,
+} from '../model/kaniCapabilities';
 import { SourceCodeParser } from './sourceCodeParser';
 
 /**
@@ -59,14 +64,14 @@ export class CodelensProvider implements vscode.CodeLensProvider {
 					title: '$(play) Run Test (Kani)',
 					tooltip: 'Run unit test generated by Kani',
 					command: 'codelens-kani.codelensAction',
-					arguments: [function_item_name],
+					arguments: [function_item_name, document.uri],
 				};
 
 				const debugTestAction = {
 					title: '$(debug) Debug Harness (Kani)',
 					tooltip: 'Debug unit test generated by Kani',
 					command: 'extension.connectToDebugger',
-					arguments: [function_item_name],
+					arguments: [function_item_name, document.uri],
 				};
 
 				if (range) {
@@ -85,6 +90,10 @@ export class CodelensProvider implements vscode.CodeLensProvider {
 				// `Get coverage info` code lens button.
 				const kani_harnesses = await SourceCodeParser.getAttributeFromRustFile(text);
 
+				// The button stays visible when the installed Kani lacks coverage, to explain why
+				const capabilities = await getKaniCapabilities();
+				const coverageSupported = supportsFeature(capabilities, 'coverage');
+
 				for (const harness of kani_harnesses) {
 					const harness_name = harness.harnessName;
 
@@ -102,10 +111,14 @@ export class CodelensProvider implements vscode.CodeLensProvider {
 					const range = document.getWordRangeAtPosition(position);
 
 					const codeCoverageAction = {
-						title: '$(play) Get coverage info',
-						tooltip: 'Highlight code with coverage information generated by Kani',
+						title: coverageSupported
+							? '$(play) Get coverage info'
+							: '$(circle-slash) Coverage info unavailable',
+						tooltip: coverageSupported
+							? 'Highlight code with coverage information generated by Kani'
+							: getUnsupportedFeatureMessage(capabilities, 'coverage'),
 						command: 'codelens-kani.highlightCoverage',
-						arguments: [harness_name],
+						arguments: [harness_name, document.uri],
 					};
 
 					if (range) {
@@ -8,23 +8,33 @@ import * as vscode from 'vscode';
 
 import { KaniArguments, KaniConstants } from '../../constants';
 import GlobalConfig from '../../globalConfig';
-import { CommandArgs, getPackageName, getRootDir, splitCommand } from '../../utils';
+import { ensureFeatureSupported } from '../../model/kaniCapabilities';
+import { getHarnessConfigArgs } from '../../model/kaniConfig';
+import { CommandArgs, getCrateRoot, getPackageNameFromFilePath, splitCommand } from '../../utils';
 
 /**
  * Call the visualize flag on the harness and render the html page
  *
  * @param commandURI - vscode command that is being executed
  * @param harnessObj - metadata about the harness
+ * @returns true once Kani has finished writing the unit test, false if Kani could not be run
  */
 export async function callConcretePlayback(harnessObj: {
 	harnessName: string;
 	harnessFile: string;
 	harnessType: boolean;
-}): Promise<void> {
+}): Promise<boolean> {
+	// The installed Kani may not support this action, in which case the user is told why
+	if (!(await ensureFeatureSupported('concretePlayback'))) {
+		return false;
+	}
+
 	let finalCommand: string = '';
 
 	const platform: NodeJS.Platform = process.platform;
-	const packageName = await getPackageName(getRootDir());
+	// The package and crate are those of the file that contains the harness
+	const harnessUri = vscode.Uri.file(harnessObj.harnessFile);
+	const packageName = await getPackageNameFromFilePath(harnessUri);
 	const harnessName: string = harnessObj.harnessName;
 	const harnessType: boolean = harnessObj.harnessType;
 
@@ -38,7 +48,8 @@ export async function callConcretePlayback(harnessObj: {
 	}
 
 	// Wait for the the visualize command to finish generating the report
-	executePlaybackCommand(finalCommand);
+	const configArgs = await getHarnessConfigArgs(harnessUri, harnessName);
+	return executePlaybackCommand(finalCommand, getCrateRoot(harnessUri), configArgs);
 }
 
 // Check if cargo toml exists and create corresponding kani command
@@ -53,7 +64,11 @@ function createCommand(packageName: string, harnessName: string, harnessType: bo
 }
 
 // Generate the unit test from the playback command
-function executePlaybackCommand(finalCommand: string): void {
+function executePlaybackCommand(
+	finalCommand: string,
+	crateRoot: string,
+	configArgs: string[],
+): Promise<boolean> {
 	const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
 	statusBarItem.text = '$(gear~spin) Generating concrete test...';
 	statusBarItem.show();
@@ -62,31 +77,37 @@ function executePlaybackCommand(finalCommand: string): void {
 
 	const options = {
 		shell: false,
-		cwd: path.resolve(getRootDir()),
+		cwd: path.resolve(crateRoot),
 	};
 
 	const globalConfig = GlobalConfig.getInstance();
 	const kaniBinaryPath = globalConfig.getFilePath();
 
-	const process = execFile(kaniBinaryPath, commandSplit.args, options, (error, stdout, stderr) => {
-		// Process execution has finished
-		// Hide the status bar icon
-		statusBarItem.hide();
-
-		if (error) {
-			console.error(error);
-			return;
-		}
-
-		// Process the command output (stdout) if needed
-		if (stdout) {
-			console.log(stdout);
-		}
-	});
-
-	// Handle when the process is terminated externally
-	process.on('exit', () => {
-		// Hide the status bar icon
-		statusBarItem.hide();
+	const args = [...commandSplit.args, ...configArgs];
+	return new Promise((resolve) => {
+		const process = execFile(kaniBinaryPath, args, options, (error, stdout, stderr) => {
+			// Process execution has finished
+			// Hide the status bar icon
+			statusBarItem.hide();
+
+			if (error) {
+				console.error(error);
+				// Kani exits with an error code when the harness fails, which is expected here
+				resolve(typeof error.code === 'number');
+				return;
+			}
+
+			// Process the command output (stdout) if needed
+			if (stdout) {
+				console.log(stdout);
+			}
+			resolve(true);
+		});
+
+		// Handle when the process is terminated externally
+		process.on('exit', () => {
+			// Hide the status bar icon
+			statusBarItem.hide();
+		});
 	});
 }
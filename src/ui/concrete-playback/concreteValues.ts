@@ -0,0 +1,197 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as vscode from 'vscode';
+
+import { SourceCodeParser } from '../sourceCodeParser';
+import { ConcretePlaybackTest, KaniAnyCall } from '../sourceMap';
+
+// Size in bytes of the primitive types Kani encodes, pointer sized integers being 64 bits
+const typeSizes: Record<string, number> = {
+	u8: 1,
+	u16: 2,
+	u32: 4,
+	u64: 8,
+	u128: 16,
+	usize: 8,
+	i8: 1,
+	i16: 2,
+	i32: 4,
+	i64: 8,
+	i128: 16,
+	isize: 8,
+	bool: 1,
+	char: 4,
+	f32: 4,
+	f64: 8,
+};
+
+/**
+ * Decode the little-endian bytes Kani generates for a value of a primitive type
+ *
+ * @param bytes - bytes of the value in `concrete_vals`
+ * @param type - type of the value, if known
+ * @returns the value as Rust would print it, the type it was decoded as and whether that type was
+ * guessed from the number of bytes
+ */
+export function decodeConcreteValue(
+	bytes: number[],
+	type?: string,
+): { value: string; type?: string; guessed?: boolean } {
+	// Without a matching type, the bytes are read as an unsigned integer of their size
+	if (type === undefined || typeSizes[type] !== bytes.length) {
+		const unsignedType = Object.keys(typeSizes).find(
+			(candidate) => candidate.startsWith('u') && typeSizes[candidate] === bytes.length,
+		);
+		if (unsignedType === undefined) {
+			return { value: `[${bytes.join(', ')}]` };
+		}
+		return { ...decodeConcreteValue(bytes, unsignedType), guessed: true };
+	}
+
+	const view = new DataView(Uint8Array.from(bytes).buffer);
+	switch (type) {
+		case 'bool':
+			return { value: `${bytes[0] !== 0}`, type };
+		case 'char':
+			return { value: formatChar(view.getUint32(0, true)), type };
+		case 'f32':
+			return { value: formatFloat(view.getFloat32(0, true)), type };
+		case 'f64':
+			return { value: formatFloat(view.getFloat64(0, true)), type };
+	}
+
+	const unsigned = bytes.reduceRight((value, byte) => (value << 8n) | BigInt(byte), 0n);
+	const value = type.startsWith('i') ? BigInt.asIntN(bytes.length * 8, unsigned) : unsigned;
+	return { value: value.toString(), type };
+}
+
+// Print a char like Rust's debug format, escaping the characters that are not printable
+function formatChar(codePoint: number): string {
+	if (codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+		return `invalid char ${codePoint}`;
+	}
+	const char = String.fromCodePoint(codePoint);
+	const escaped = /[\p{L}\p{N}\p{P}\p{S}]| /u.test(char)
+		? char.replace(/['\\]/, '\\$&')
+		: `\\u{${codePoint.toString(16)}}`;
+	return `'${escaped}'`;
+}
+
+function formatFloat(value: number): string {
+	return Number.isInteger(value) ? value.toFixed(1) : `${value}`;
+}
+
+// Label of a value in the inline hints and hovers, i.e `x: u32 = 1023`, or `1023: ≈u32` when the
+// type is guessed
+function describeValue(bytes: number[], call?: KaniAnyCall): string {
+	const decoded = decodeConcreteValue(bytes, call?.type);
+	const type = decoded.type === undefined ? '' : `: ${decoded.guessed ? '≈' : ''}${decoded.type}`;
+	return call?.variable === undefined
+		? `${decoded.value}${type}`
+		: `${call.variable}${type} = ${decoded.value}`;
+}
+
+// Parsed concrete playback tests of a document, reused while the document is unchanged
+const parsedDocuments = new Map<string, { version: number; tests: ConcretePlaybackTest[] }>();
+
+// Forget the parsed tests of a document once it is closed
+export function clearConcretePlaybackTests(document: vscode.TextDocument): void {
+	parsedDocuments.delete(document.uri.toString());
+}
+
+/**
+ * Match the values of a test with the `kani::any()` calls of its harness. The calls are matched in
+ * source order, which is only the order of the values when each call returns exactly one value.
+ *
+ * @param test - concrete playback test
+ * @returns the call that returned each value, or no calls if they cannot be matched
+ */
+function matchAnyCalls(test: ConcretePlaybackTest): KaniAnyCall[] {
+	if (test.anyCalls.length !== test.values.length || test.anyCalls.some((call) => call.inLoop)) {
+		return [];
+	}
+	return test.anyCalls;
+}
+
+async function getConcretePlaybackTests(
+	document: vscode.TextDocument,
+): Promise<ConcretePlaybackTest[]> {
+	const key = document.uri.toString();
+	const parsed = parsedDocuments.get(key);
+	if (parsed !== undefined && parsed.version === document.version) {
+		return parsed.tests;
+	}
+	const text = document.getText();
+	const tests = text.includes('kani_concrete_playback')
+		? await SourceCodeParser.extractConcretePlaybackValues(text)
+		: [];
+	parsedDocuments.set(key, { version: document.version, tests });
+	return tests;
+}
+
+/**
+ * Shows the decoded values of concrete playback tests next to their bytes, and on hover, the
+ * `kani::any()` call of the harness that each value is returned by
+ */
+export class ConcreteValuesProvider implements vscode.InlayHintsProvider, vscode.HoverProvider {
+	public async provideInlayHints(
+		document: vscode.TextDocument,
+		range: vscode.Range,
+	): Promise<vscode.InlayHint[]> {
+		const hints: vscode.InlayHint[] = [];
+		for (const test of await getConcretePlaybackTests(document)) {
+			const anyCalls = matchAnyCalls(test);
+			test.values.forEach((value, index) => {
+				const position = new vscode.Position(value.endPosition.row, value.endPosition.column);
+				if (!range.contains(position)) {
+					return;
+				}
+				const hint = new vscode.InlayHint(position, describeValue(value.bytes, anyCalls[index]));
+				hint.paddingLeft = true;
+				hints.push(hint);
+			});
+		}
+		return hints;
+	}
+
+	public async provideHover(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): Promise<vscode.Hover | undefined> {
+		for (const test of await getConcretePlaybackTests(document)) {
+			const index = test.values.findIndex((value) =>
+				new vscode.Range(
+					value.startPosition.row,
+					value.startPosition.column,
+					value.endPosition.row,
+					value.endPosition.column,
+				).contains(position),
+			);
+			if (index === -1) {
+				continue;
+			}
+
+			const value = test.values[index];
+			const call = matchAnyCalls(test)[index];
+			const markdown = new vscode.MarkdownString();
+			markdown.appendMarkdown(`**Concrete value ${index + 1} of ${test.values.length}**\n\n`);
+			markdown.appendCodeblock(describeValue(value.bytes, call), 'rust');
+			if (call !== undefined) {
+				const line = call.startPosition.row;
+				const link = `${document.uri.toString()}#L${line + 1},${call.startPosition.column + 1}`;
+				markdown.appendMarkdown(
+					`Returned by [\`${call.text}\`](${link}) on line ${line + 1} of \`${
+						test.harnessName
+					}\`\n\n`,
+				);
+				markdown.appendCodeblock(document.lineAt(line).text.trim(), 'rust');
+			} else if (test.harnessName !== undefined) {
+				markdown.appendMarkdown(
+					`The \`kani::any()\` calls of \`${test.harnessName}\` in this file cannot be matched with the values of the test`,
+				);
+			}
+			return new vscode.Hover(markdown);
+		}
+		return undefined;
+	}
+}
@@ -1,18 +1,40 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as fs from 'fs';
+
 import * as vscode from 'vscode';
 
 import GlobalConfig from '../../globalConfig';
-import { getPackageName, getRootDir, isLibraryProject } from '../../utils';
+import { ensureFeatureSupported } from '../../model/kaniCapabilities';
+import { getHarnessConfigArgs } from '../../model/kaniConfig';
+import {
+	getCrateRoot,
+	getPackageName,
+	getPackageNameFromFilePath,
+	getTargetArgsFromFilePath,
+	getWorkspaceFolder,
+	isLibraryProject,
+} from '../../utils';
+import { SourceCodeParser } from '../sourceCodeParser';
 
 /**
  * Runs the cargo test task whenever the user clicks on a codelens button
  * @param functionName - Name of the unit test being run by the user
+ * @param fileUri - File that contains the unit test, the active editor is used if undefined
  */
-export async function runKaniPlayback(functionName: string): Promise<void> {
+export async function runKaniPlayback(functionName: string, fileUri?: vscode.Uri): Promise<void> {
+	// The installed Kani may not support this action, in which case the user is told why
+	if (!(await ensureFeatureSupported('playback'))) {
+		return;
+	}
+
 	const taskName = `Kani Playback: ${functionName}`;
 
-	const packageName = await getPackageName(getRootDir());
+	// The test runs in the package and crate of the file that contains it
+	const crateRoot = getCrateRoot(fileUri);
+	const packageName = fileUri
+		? await getPackageNameFromFilePath(fileUri)
+		: await getPackageName(crateRoot);
 	const taskDefinition: vscode.TaskDefinition = {
 		type: 'cargo',
 		command: 'test',
@@ -24,19 +46,31 @@ export async function runKaniPlayback(functionName: string): Promise<void> {
 
 	let playbackCommand: string = `${kaniBinaryPath} playback --package ${packageName} -Z concrete-playback`;
 
-	const isLib: boolean = await isLibraryProject(getRootDir());
-	if (isLib) {
+	if (fileUri) {
+		const targetArgs = await getTargetArgsFromFilePath(fileUri);
+		playbackCommand += targetArgs.map((arg) => ` ${arg}`).join('');
+	} else if (await isLibraryProject(crateRoot)) {
 		playbackCommand += ` --lib`;
 	}
 
+	if (fileUri) {
+		// The configuration of the harness applies to the concrete tests generated from it
+		const harnessName = await SourceCodeParser.findPlaybackHarness(
+			fs.readFileSync(fileUri.fsPath, 'utf-8'),
+			functionName,
+		);
+		const configArgs = await getHarnessConfigArgs(fileUri, harnessName, 'playback');
+		playbackCommand += configArgs.map((arg) => ` ${arg}`).join('');
+	}
+
 	playbackCommand += ` -- ${functionName} --nocapture`;
 
 	const task = new vscode.Task(
 		taskDefinition,
-		vscode.TaskScope.Workspace,
+		getWorkspaceFolder(fileUri) ?? vscode.TaskScope.Workspace,
 		taskName,
 		'cargo',
-		new vscode.ShellExecution(playbackCommand),
+		new vscode.ShellExecution(playbackCommand, { cwd: crateRoot }),
 	);
 	vscode.tasks.executeTask(task);
 }
@@ -0,0 +1,311 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import GlobalConfig from '../../globalConfig';
+import { ensureFeatureSupported } from '../../model/kaniCapabilities';
+import { getHarnessConfigArgs } from '../../model/kaniConfig';
+import { parseKaniTextOutput } from '../../model/kaniOutputParser';
+import { CoverageEntry } from '../../model/kaniResult';
+import { getKaniPath } from '../../model/kaniRunner';
+import { CommandArgs, getCrateRoot, splitCommand } from '../../utils';
+import OutputManager from '../outputManager';
+import Config from './config';
+
+const { execFile } = require('child_process');
+
+// Interface for storing the coverage status for each line of a document.
+export interface CoverageLines {
+    full: vscode.Range[];
+    partial: vscode.Range[];
+    none: vscode.Range[];
+}
+
+enum CoverageStatus {
+	Full = "FULL",
+	Partial = "PARTIAL",
+	None = "NONE"
+}
+
+const warningMessage = `Line coverage is an unstable feature.`;
+
+// Callback function for the coverage code lens action
+export async function runCodeCoverageAction(
+	renderer: CoverageRenderer,
+	functionName: string,
+	fileUri?: vscode.Uri,
+): Promise<void> {
+	// The installed Kani may not support this action, in which case the user is told why
+	if (!(await ensureFeatureSupported('coverage'))) {
+		return;
+	}
+
+	const globalConfig = GlobalConfig.getInstance();
+
+	vscode.window.showWarningMessage(warningMessage);
+
+	const coverageOutputArray = await getHarnessCoverage(functionName, fileUri);
+	if(coverageOutputArray !== undefined) {
+		// Convert the array of (file, line, status) objects into Map<file <line, status>>
+		// since we need to cache this globally
+		const coverageGlobalMap = parseCoverageFormatted(coverageOutputArray);
+		globalConfig.setCoverage(coverageGlobalMap);
+
+		renderer.renderInterface(vscode.window.visibleTextEditors, coverageGlobalMap);
+	}
+}
+
+/**
+ * Run Kani with line coverage on a harness
+ *
+ * @param functionName - name of the harness
+ * @param fileUri - file that contains the harness, the active editor is used if undefined
+ * @returns - the coverage of the lines reached by the harness, or undefined if Kani reported none
+ */
+export async function getHarnessCoverage(
+	functionName: string,
+	fileUri?: vscode.Uri,
+): Promise<CoverageEntry[] | undefined> {
+	const kaniBinaryPath = GlobalConfig.getInstance().getFilePath();
+	const playbackCommand: string = `${kaniBinaryPath} --coverage -Z line-coverage --harness ${functionName}`;
+	// Run Kani in the crate of the file containing the harness
+	const harnessUri = fileUri ?? vscode.window.activeTextEditor?.document.uri;
+	const crateRoot = getCrateRoot(harnessUri);
+	const configArgs = harnessUri ? await getHarnessConfigArgs(harnessUri, functionName) : [];
+	const processOutput = await runCoverageCommand(
+		playbackCommand,
+		functionName,
+		crateRoot,
+		configArgs,
+	);
+
+	// Kani's output has no coverage results if the harness could not be verified
+	if(processOutput.statusCode != 0 || !Array.isArray(processOutput.result)) {
+		return undefined;
+	}
+	return processOutput.result;
+}
+
+/**
+ * Run the --coverage command (with -Z line-coverage) to generate the coverage output, parse the output and return the result
+ *
+ * @param command - the kani command to run along with the harness name
+ * @param harnessName - name of the harness
+ * @param crateRoot - directory of the crate containing the harness
+ * @param configArgs - arguments from the Kani configuration of the package
+ * @returns - the result of executing the --coverage command and parsing the output
+ */
+async function runCoverageCommand(
+	command: string,
+	harnessName: string,
+	crateRoot: string,
+	configArgs: string[] = [],
+): Promise<any> {
+	// Get the full resolved path for the root directory of the crate
+	const directory = path.resolve(crateRoot);
+	const commmandSplit = command.split(' ');
+
+	// Get args for the command to be executed
+	const args = [...commmandSplit.slice(1), ...configArgs];
+
+	const options = {
+		shell: false,
+		cwd: directory,
+	};
+
+	const globalConfig = GlobalConfig.getInstance();
+	const kaniBinaryPath = globalConfig.getFilePath();
+
+	vscode.window.showInformationMessage(`Generating coverage for ${harnessName}`);
+	return new Promise((resolve, _reject) => {
+		execFile(kaniBinaryPath, args, options, async (_error: any, stdout: any, _stderr: any) => {
+			if (stdout) {
+				const parseResult = await parseKaniCoverageOutput(stdout, harnessName, directory);
+				resolve({ statusCode: 0, result: parseResult });
+			} else {
+				// Callers may wait for the coverage, so they must be told that there is none
+				resolve({ statusCode: 1, result: undefined });
+			}
+		});
+	});
+}
+
+/**
+ * Search for the path to the report printed in Kani's output, and detect if we are in a remote
+ * enviroment before returning the result.
+ *
+ * @param stdout - Kani's standard output after running the visualize command
+ * @param harnessName - name of the harness, used as the title of the output
+ * @param directory - directory Kani ran in
+ * @returns - undefined (error) or a result that indicates if the extension is executed on a local
+ *  or remote environment. The result includes a `path` (if local) or a `command` (if remote).
+ */
+async function parseKaniCoverageOutput(
+	stdout: string,
+	harnessName: string,
+	directory: string,
+): Promise<any | undefined> {
+	const kaniOutput: string = stdout;
+	const kaniOutputArray: string[] = kaniOutput.split('Coverage Results:\n');
+
+	const coverageResults = kaniOutputArray.at(1);
+
+	if(coverageResults === undefined) {
+		return '';
+	}
+
+	// If the global setting for showing output is on, show the output
+	const config = vscode.workspace.getConfiguration('Kani');
+	const showOutputWindow = config.get('showOutputWindow');
+
+	// Use the value to show or hide the output window
+	OutputManager.getInstance().appendRun(
+		`Coverage Report: ${harnessName}`,
+		coverageResults,
+		directory,
+		Boolean(showOutputWindow),
+	);
+
+	const coverage: CoverageEntry[] = parseKaniTextOutput(stdout).coverage;
+
+	// No command found from Kani
+	return coverage;
+}
+
+// Parse `CoverageEntry` objects and convert it into CoverageMap or a map<file_path, map<line_number, status>>.
+// We store this map as the global cache since it allows easy sorting and retrieval by file name, needed by VS Code.
+function parseCoverageFormatted(entries: CoverageEntry[]): Map<string, Map<number, string>> {
+	const nestedMap: Map<string, Map<number, string>> = new Map();
+
+	for (const entry of entries) {
+		const { filePath, lineNumber, coverageStatus } = entry;
+
+		// Check if the outer map already has an entry for the filePath
+		let innerMap = nestedMap.get(filePath);
+
+		// If not, create a new inner map and set it in the outer map
+		if (!innerMap) {
+			innerMap = new Map<number, CoverageStatus>();
+			nestedMap.set(filePath, innerMap);
+		}
+
+		// Set the coverageStatus in the inner map for the lineNumber
+		innerMap.set(lineNumber, coverageStatus);
+	}
+
+	return nestedMap;
+}
+
+// Class representing the Renderer that handles rendering coverage highlights in the editor.
+export class CoverageRenderer {
+	private configStore: Config;
+	constructor(
+        configStore: Config,
+    ) {
+        this.configStore = configStore;
+    }
+
+	/**
+	 * Renders coverage highlights for multiple files.
+	 * @param editors - An array of text editor files to render coverage highlights for.
+	 * @param coverageMap - A map containing coverage data for each file.
+	 */
+	public renderInterface(editors: readonly vscode.TextEditor[], coverageMap: Map<string, Map<number, string>>): void {
+		editors.forEach((editor) => {
+			// If coverageMap is empty, de-highlight the files
+			if(coverageMap.size == 0) {
+				const coverageLines: CoverageLines = {
+					full: [],
+					none: [],
+					partial: [],
+				};
+
+				this.renderHighlight(editor, coverageLines);
+				return;
+			}
+
+			// Fetch the coverage data for a file from the coverageMap.
+			const fileMap = coverageMap.get(editor.document.fileName)!;
+			const coverageLines = this.createCoverage(editor.document, fileMap);
+			this.renderHighlight(editor, coverageLines);
+			return;
+		});
+	}
+
+	/**
+	 * Renders coverage highlights for a single text editor file.
+	 * @param editor - The text editor to render coverage highlights for.
+	 * @param coverageMap - A map containing coverage data for each file.
+	 */
+	public renderInterfaceForFile(editor: vscode.TextEditor, coverageMap: Map<string, Map<number, string>>): void {
+		if(coverageMap.size == 0) {
+			const coverageLines: CoverageLines = {
+				full: [],
+				none: [],
+				partial: [],
+			};
+
+			this.renderHighlight(editor, coverageLines);
+		}
+		const fileMap = coverageMap.get(editor.document.fileName);
+		if(fileMap === undefined){
+			return;
+		}
+		const coverageLines = this.createCoverage(editor.document, fileMap);
+		this.renderHighlight(editor, coverageLines);
+	}
+
+
+	/**
+	 * Creates coverage highlights for a given text document based on the coverageFileMap.
+	 * @param doc - The text document for which coverage highlights are to be created.
+	 * @param coverageFileMap - A map containing coverage status for each line number.
+	 * @returns An object containing coverage highlights categorized as 'full', 'partial', and 'none'.
+	 */
+	public createCoverage(doc: vscode.TextDocument, coverageFileMap: Map<number, string>): CoverageLines {
+		const coverageLines: CoverageLines = {
+            full: [],
+            none: [],
+            partial: [],
+        };
+
+		for (let lineNum = 1; lineNum <= doc.lineCount; lineNum++) {
+			const line = doc.lineAt(lineNum - 1);
+			const status = coverageFileMap.get(lineNum);
+
+			if(status === undefined) {
+				continue;
+			}
+
+			const range = new vscode.Range(line.range.start, line.range.end);
+			switch (status) {
+				case "FULL":
+					coverageLines.full.push(range);
+					break;
+				case "PARTIAL":
+					coverageLines.partial.push(range);
+					break;
+				case "NONE":
+					coverageLines.none.push(range);
+					break;
+				default:
+					break;
+			}
+		}
+
+		return coverageLines;
+	}
+
+	/**
+	 * Applies the coverage highlights to the given text editor.
+	 * @param editor - The text editor to apply the coverage highlights to.
+	 * @param coverageLinesInfo - An object containing coverage highlights categorized as 'full', 'partial', and 'none'.
+	 */
+	public renderHighlight(editor: vscode.TextEditor, coverageLinesInfo: CoverageLines): void {
+		editor.setDecorations(this.configStore.covered, coverageLinesInfo.full);
+		editor.setDecorations(this.configStore.partialcovered, coverageLinesInfo.partial);
+		editor.setDecorations(this.configStore.uncovered, coverageLinesInfo.none);
+	}
+}
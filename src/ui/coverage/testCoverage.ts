@@ -0,0 +1,84 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { CoverageEntry } from '../../model/kaniResult';
+
+// Coverage statuses reported by Kani, from the least to the most covered
+const coverageRanks = ['NONE', 'PARTIAL', 'FULL'];
+
+// Statement details of the published file coverages, loaded when the user opens a file
+const fileDetails = new WeakMap<vscode.FileCoverage, vscode.FileCoverageDetail[]>();
+
+// Combine the statuses two harnesses report for the same line, the most covered one wins
+export function mergeCoverageStatus(a: string | undefined, b: string): string {
+	if (a === undefined) {
+		return b;
+	}
+	return coverageRanks.indexOf(b) > coverageRanks.indexOf(a) ? b : a;
+}
+
+/**
+ * Collects the coverage of the harnesses verified in a test run and publishes it to the run, so
+ * that it is shown in the Test Coverage view, the explorer and the editor gutter
+ */
+export class TestCoverageCollector {
+	// Status of every line, keyed by the absolute path of the file and the line number
+	private readonly lines = new Map<string, Map<number, string>>();
+
+	/**
+	 * Add the coverage of a harness to the coverage of the run, and publish the files it changed
+	 *
+	 * @param run - test run that verifies the harness
+	 * @param entries - line coverage reported by Kani for the harness
+	 * @param crateRoot - directory Kani ran in, which relative file paths are resolved against
+	 */
+	public add(run: vscode.TestRun, entries: CoverageEntry[], crateRoot: string): void {
+		const changedFiles = new Set<string>();
+		for (const entry of entries) {
+			const filePath = path.resolve(crateRoot, entry.filePath);
+			let fileLines = this.lines.get(filePath);
+			if (fileLines === undefined) {
+				fileLines = new Map();
+				this.lines.set(filePath, fileLines);
+			}
+			const status = entry.coverageStatus.trim();
+			fileLines.set(entry.lineNumber, mergeCoverageStatus(fileLines.get(entry.lineNumber), status));
+			changedFiles.add(filePath);
+		}
+
+		// Coverage added again for a file replaces the one published before in the same run
+		for (const filePath of changedFiles) {
+			const details = createStatementCoverage(this.lines.get(filePath)!);
+			const fileCoverage = vscode.FileCoverage.fromDetails(vscode.Uri.file(filePath), details);
+			fileDetails.set(fileCoverage, details);
+			run.addCoverage(fileCoverage);
+		}
+	}
+}
+
+// Give VS Code the statements of a file coverage published by a collector
+export async function loadDetailedCoverage(
+	_run: vscode.TestRun,
+	fileCoverage: vscode.FileCoverage,
+): Promise<vscode.FileCoverageDetail[]> {
+	return fileDetails.get(fileCoverage) ?? [];
+}
+
+// Convert the status of the lines into statements. Partially covered lines are executed
+// statements with a branch that was not taken.
+function createStatementCoverage(fileLines: Map<number, string>): vscode.StatementCoverage[] {
+	return [...fileLines.entries()]
+		.sort(([a], [b]) => a - b)
+		.map(([lineNumber, status]) => {
+			const position = new vscode.Position(lineNumber - 1, 0);
+			if (status === 'PARTIAL') {
+				return new vscode.StatementCoverage(true, position, [
+					new vscode.BranchCoverage(false, position),
+				]);
+			}
+			return new vscode.StatementCoverage(status === 'FULL', position);
+		});
+}
@@ -0,0 +1,175 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { CheckResult, HarnessResult, SourceLocation } from '../model/kaniResult';
+
+/**
+ * Publishes the failed and undetermined checks of the harnesses to the Problems panel, so that
+ * the failing assertion, overflow or dereference is squiggled in the source. Each harness owns the diagnostics
+ * of its last failed run until it passes.
+ */
+class KaniDiagnostics {
+	private static instance: KaniDiagnostics;
+	private collection: vscode.DiagnosticCollection | undefined;
+	// Diagnostics of every harness, keyed by the harness identity and the path of the file
+	private harnessDiagnostics: Map<string, Map<string, vscode.Diagnostic[]>>;
+
+	private constructor() {
+		this.harnessDiagnostics = new Map();
+	}
+
+	public static getInstance(): KaniDiagnostics {
+		if (!KaniDiagnostics.instance) {
+			KaniDiagnostics.instance = new KaniDiagnostics();
+		}
+		return KaniDiagnostics.instance;
+	}
+
+	/**
+	 * Show the failed and undetermined checks of a harness, replacing the ones of its previous run
+	 *
+	 * @param identity - identity of the harness, i.e its verification cache identity
+	 * @param harness - name and location of the harness, which the diagnostics point back to
+	 * @param result - verification result of the harness
+	 * @param crateRoot - directory Kani ran in, which relative check locations are resolved against
+	 */
+	public setHarnessResult(
+		identity: string,
+		harness: { name: string; location: vscode.Location },
+		result: HarnessResult,
+		crateRoot: string,
+	): void {
+		const files = new Map<string, vscode.Diagnostic[]>();
+		const addDiagnostic = (location: vscode.Location, diagnostic: vscode.Diagnostic): void => {
+			diagnostic.source = 'Kani';
+			diagnostic.relatedInformation = [
+				new vscode.DiagnosticRelatedInformation(
+					harness.location,
+					`Checked by harness ${harness.name}`,
+				),
+			];
+			const file = location.uri.fsPath;
+			files.set(file, [...(files.get(file) ?? []), diagnostic]);
+		};
+
+		// Unreachable checks are not failures, the test tree shows them as skipped
+		const failedChecks = result.checks.filter((check) =>
+			['FAILURE', 'UNDETERMINED'].includes(check.status),
+		);
+		const outsideChecks: CheckResult[] = [];
+		for (const check of failedChecks) {
+			const location = getCheckLocation(check, crateRoot);
+			if (location === undefined) {
+				outsideChecks.push(check);
+				continue;
+			}
+			const diagnostic = new vscode.Diagnostic(
+				location.range,
+				`${check.description} (${check.status})`,
+				getSeverity([check]),
+			);
+			diagnostic.code = check.propertyClass;
+			addDiagnostic(location, diagnostic);
+		}
+
+		// Checks in files outside of the crate, i.e the standard library, are shown on the harness
+		if (outsideChecks.length > 0) {
+			const descriptions = outsideChecks.map((check) => `${check.description} (${check.status})`);
+			addDiagnostic(
+				harness.location,
+				new vscode.Diagnostic(
+					harness.location.range,
+					`${outsideChecks.length} checks outside of the crate did not pass: ${descriptions.join(
+						'; ',
+					)}`,
+					getSeverity(outsideChecks),
+				),
+			);
+		}
+
+		const previousFiles = [...(this.harnessDiagnostics.get(identity)?.keys() ?? [])];
+		if (files.size > 0) {
+			this.harnessDiagnostics.set(identity, files);
+		} else {
+			this.harnessDiagnostics.delete(identity);
+		}
+		this.publish(new Set([...previousFiles, ...files.keys()]));
+	}
+
+	// Remove the diagnostics of a harness, i.e once it passes
+	public clearHarness(identity: string): void {
+		const files = this.harnessDiagnostics.get(identity);
+		if (files !== undefined) {
+			this.harnessDiagnostics.delete(identity);
+			this.publish(new Set(files.keys()));
+		}
+	}
+
+	public dispose(): void {
+		this.collection?.dispose();
+		this.collection = undefined;
+		this.harnessDiagnostics.clear();
+	}
+
+	// Set the diagnostics of the files from the diagnostics of every harness
+	private publish(filePaths: Set<string>): void {
+		if (this.collection === undefined) {
+			this.collection = vscode.languages.createDiagnosticCollection('Kani');
+		}
+		for (const filePath of filePaths) {
+			const diagnostics = [...this.harnessDiagnostics.values()].flatMap(
+				(files) => files.get(filePath) ?? [],
+			);
+			this.collection.set(vscode.Uri.file(filePath), diagnostics);
+		}
+	}
+}
+
+// Failures are errors, checks that Kani could not decide are warnings
+function getSeverity(checks: CheckResult[]): vscode.DiagnosticSeverity {
+	return checks.some((check) => check.status === 'FAILURE')
+		? vscode.DiagnosticSeverity.Error
+		: vscode.DiagnosticSeverity.Warning;
+}
+
+// Get the source location Kani reported for a check, see `getSourceLocation`
+export function getCheckLocation(
+	check: CheckResult,
+	crateRoot: string,
+): vscode.Location | undefined {
+	return getSourceLocation(check.location, crateRoot);
+}
+
+/**
+ * Convert a source location reported by Kani to an editor location. Kani reports 1-based lines
+ * and columns, the location is an empty range at the column, which editors expand to the word at
+ * the position.
+ *
+ * @param location - location reported by Kani
+ * @param crateRoot - directory Kani ran in, which relative locations are resolved against
+ * @returns the location, or undefined if there is none or its file is not on this machine
+ */
+export function getSourceLocation(
+	location: SourceLocation | undefined,
+	crateRoot: string,
+): vscode.Location | undefined {
+	if (location === undefined) {
+		return undefined;
+	}
+	const filePath = path.resolve(crateRoot, location.file);
+	if (!fs.existsSync(filePath)) {
+		return undefined;
+	}
+	const line = Math.max(0, location.line - 1);
+	const column = Math.max(0, (location.column ?? 1) - 1);
+	return new vscode.Location(
+		vscode.Uri.file(filePath),
+		new vscode.Range(line, column, line, column),
+	);
+}
+
+export default KaniDiagnostics;
@@ -0,0 +1,184 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+
+/**
+ * Offline documentation of a Kani attribute or API, shown on hover
+ *
+ * @param kind - Whether the item is used as an attribute, a function or a macro
+ * @param signature - How the item is written
+ * @param description - What the item does
+ * @param args - Accepted arguments and their meaning, in the order they are written
+ * @param example - Short Rust example
+ */
+export interface KaniDoc {
+	kind: 'attribute' | 'function' | 'macro';
+	signature: string;
+	description: string;
+	args?: [string, string][];
+	example: string;
+}
+
+// Documentation of the Kani attributes and APIs, keyed by their path without the `!` of macros
+export const kaniDocs: Record<string, KaniDoc> = {
+	'kani::proof': {
+		kind: 'attribute',
+		signature: '#[kani::proof]',
+		description:
+			'Marks a function as a proof harness. Kani checks that no property of the harness, such as an assertion, an arithmetic overflow or an out of bounds access, can fail for any value returned by `kani::any()`.',
+		example: `#[kani::proof]
+fn check_abs() {
+    let x: i32 = kani::any();
+    kani::assume(x > i32::MIN);
+    assert!(x.abs() >= 0);
+}`,
+	},
+	'kani::unwind': {
+		kind: 'attribute',
+		signature: '#[kani::unwind(<bound>)]',
+		description:
+			'Sets how many times the loops of the harness are unwound. Verification fails with an unwinding assertion if a loop can run more times than the bound. The `--unwind` flag overrides the attribute, and `--default-unwind` applies to harnesses without it.',
+		args: [['bound', 'Positive integer, the number of iterations to unwind each loop']],
+		example: `#[kani::proof]
+#[kani::unwind(11)]
+fn check_sum() {
+    let n: u8 = kani::any();
+    kani::assume(n <= 10);
+    let mut sum = 0u32;
+    for i in 0..n {
+        sum += i as u32;
+    }
+    assert!(sum <= 45);
+}`,
+	},
+	'kani::solver': {
+		kind: 'attribute',
+		signature: '#[kani::solver(<solver>)]',
+		description:
+			'Selects the SAT solver that verifies the harness. The `--solver` flag overrides the attribute.',
+		args: [
+			['minisat', 'MiniSat, the solver built into CBMC'],
+			['cadical', 'CaDiCaL, built into CBMC'],
+			['kissat', 'Kissat, built into CBMC'],
+			['bin = "<path>"', 'A solver binary that reads DIMACS, found in `PATH`'],
+		],
+		example: `#[kani::proof]
+#[kani::solver(kissat)]
+fn check_hash() {
+    let data: [u8; 8] = kani::any();
+    assert_ne!(hash(&data), 0);
+}`,
+	},
+	'kani::stub': {
+		kind: 'attribute',
+		signature: '#[kani::stub(<original>, <replacement>)]',
+		description:
+			'Replaces every call of a function with a call of another function while verifying the harness, i.e to replace code Kani does not support or that is slow to verify. Stubbing is unstable, the extension passes the flag that enables it to Kani.',
+		args: [
+			['original', 'Path of the function or method to replace'],
+			['replacement', 'Path of the function with the same signature that is called instead'],
+		],
+		example: `fn mock_random() -> u32 {
+    kani::any()
+}
+
+#[kani::proof]
+#[kani::stub(rand::random, mock_random)]
+fn check_roll() {
+    assert!(roll_dice() <= 6);
+}`,
+	},
+	'kani::should_panic': {
+		kind: 'attribute',
+		signature: '#[kani::should_panic]',
+		description:
+			'Expects the harness to panic. Verification succeeds if at least one check fails and every failed check is a panic, and fails otherwise.',
+		example: `#[kani::proof]
+#[kani::should_panic]
+fn check_empty_pop() {
+    let mut stack: Vec<u8> = Vec::new();
+    stack.pop().unwrap();
+}`,
+	},
+	'kani::proof_for_contract': {
+		kind: 'attribute',
+		signature: '#[kani::proof_for_contract(<function>)]',
+		description:
+			'Marks a function as a harness that checks the contract of another function, given with `#[kani::requires]` and `#[kani::ensures]`. Function contracts are unstable and need `-Z function-contracts`.',
+		args: [['function', 'Path of the function whose contract is checked']],
+		example: `#[kani::proof_for_contract(div)]
+fn check_div() {
+    div(kani::any(), kani::any());
+}`,
+	},
+	'kani::requires': {
+		kind: 'attribute',
+		signature: '#[kani::requires(<condition>)]',
+		description:
+			'Precondition of the contract of a function. The harness of the contract only checks the function for arguments that satisfy it.',
+		args: [['condition', 'Boolean expression over the arguments of the function']],
+		example: `#[kani::requires(divisor != 0)]
+fn div(dividend: u32, divisor: u32) -> u32 {
+    dividend / divisor
+}`,
+	},
+	'kani::ensures': {
+		kind: 'attribute',
+		signature: '#[kani::ensures(<condition>)]',
+		description:
+			'Postcondition of the contract of a function, which the harness of the contract checks after every call.',
+		args: [
+			['condition', 'Closure over a reference to the result of the function, returning a boolean'],
+		],
+		example: `#[kani::ensures(|result: &u32| *result <= dividend)]
+fn div(dividend: u32, divisor: u32) -> u32 {
+    dividend / divisor
+}`,
+	},
+	'kani::any': {
+		kind: 'function',
+		signature: 'pub fn any<T: kani::Arbitrary>() -> T',
+		description:
+			'Returns a symbolic value of the type, which stands for every valid value of the type at once. Kani verifies the harness for all of them.',
+		example: `let x: u32 = kani::any();
+let flags = kani::any::<[bool; 4]>();`,
+	},
+	'kani::any_where': {
+		kind: 'function',
+		signature: 'pub fn any_where<T: kani::Arbitrary, F: FnOnce(&T) -> bool>(f: F) -> T',
+		description:
+			'Returns a symbolic value of the type that satisfies the condition. Same as `kani::any()` followed by `kani::assume()` with the condition.',
+		args: [['f', 'Closure that returns true for the values to consider']],
+		example: `let index: usize = kani::any_where(|i| *i < buffer.len());`,
+	},
+	'kani::assume': {
+		kind: 'function',
+		signature: 'pub fn assume(cond: bool)',
+		description:
+			'Restricts the verification to the executions where the condition is true. Executions where it is false are ignored, so a condition that is never true makes every check pass vacuously.',
+		args: [['cond', 'Condition to assume']],
+		example: `let x: i32 = kani::any();
+kani::assume(x > 0);`,
+	},
+	'kani::assert': {
+		kind: 'function',
+		signature: "pub fn assert(cond: bool, msg: &'static str)",
+		description:
+			'Checks that the condition holds for every value of the symbolic inputs, like `assert!`, with the message as the description of the check.',
+		args: [
+			['cond', 'Condition to check'],
+			['msg', 'Description of the check in the results'],
+		],
+		example: `kani::assert(x != 0, "x is never zero");`,
+	},
+	'kani::cover': {
+		kind: 'macro',
+		signature: 'kani::cover!(<condition>[, <message>])',
+		description:
+			'Checks that the condition can be true. The check is `SATISFIED` if some execution reaches it with the condition true and `UNSATISFIABLE` otherwise. Without a condition, it checks that the statement is reachable.',
+		args: [
+			['condition', 'Condition to reach, true if omitted'],
+			['message', 'Description of the check in the results'],
+		],
+		example: `kani::cover!(len == capacity, "the buffer can be full");`,
+	},
+};
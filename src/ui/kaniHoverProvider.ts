@@ -0,0 +1,285 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as vscode from 'vscode';
+
+import { KaniConfig, KaniFlagValue, getHarnessConfig, getKaniConfig } from '../model/kaniConfig';
+import { KaniDoc, kaniDocs } from './kaniDocs';
+import { loadParser } from './sourceCodeParser';
+
+/**
+ * Kani attribute or API found in the source
+ *
+ * @param name - path of the item, i.e `kani::unwind`
+ * @param doc - documentation of the item
+ * @param range - range of the path of the item, as rows and columns of the parse tree
+ * @param harness - harness the attribute belongs to, or the API is called in
+ */
+export interface KaniItem {
+	name: string;
+	doc: KaniDoc;
+	range: { start: { row: number; column: number }; end: { row: number; column: number } };
+	harness?: HarnessAttributes;
+}
+
+/**
+ * Harness and the attributes written above it
+ *
+ * @param name - name of the harness, qualified with the inline modules it is declared in
+ * @param attributes - text of the attributes, i.e `#[kani::unwind(10)]`
+ */
+export interface HarnessAttributes {
+	name: string;
+	attributes: string[];
+}
+
+/**
+ * Setting of a harness and where its value comes from
+ *
+ * @param value - value Kani uses, undefined if Kani uses its default
+ * @param source - where the value is set
+ */
+export interface EffectiveSetting {
+	value?: string;
+	source: string;
+}
+
+/**
+ * Find the Kani attribute or API at a position of the parse tree
+ *
+ * @param rootNode - root of the parse tree of the file
+ * @param position - row and column in the file
+ * @returns the item, or undefined if there is no documented item at the position
+ */
+export function findKaniItemAt(
+	rootNode: any,
+	position: { row: number; column: number },
+): KaniItem | undefined {
+	// The name is an identifier of a path such as `kani::unwind` or `kani::any`
+	let node = rootNode.descendantForPosition(position);
+	while (node?.parent?.type === 'scoped_identifier') {
+		node = node.parent;
+	}
+	if (node?.type !== 'scoped_identifier') {
+		return undefined;
+	}
+	const name = node.text.replace(/\s/g, '');
+	const doc = kaniDocs[name];
+	if (doc === undefined) {
+		return undefined;
+	}
+
+	let harness: HarnessAttributes | undefined;
+	const attributeItem = node.parent?.type === 'attribute' ? node.parent.parent : undefined;
+	if (attributeItem?.type === 'attribute_item') {
+		// Other attributes and comments may be between the attribute and the function
+		let item = attributeItem.nextNamedSibling;
+		while (item && ['attribute_item', 'line_comment', 'block_comment'].includes(item.type)) {
+			item = item.nextNamedSibling;
+		}
+		harness = item?.type === 'function_item' ? getHarnessAttributes(item) : undefined;
+	} else {
+		let item = node.parent;
+		while (item && item.type !== 'function_item') {
+			item = item.parent;
+		}
+		harness = item ? getHarnessAttributes(item) : undefined;
+	}
+
+	return {
+		name,
+		doc,
+		range: { start: node.startPosition, end: node.endPosition },
+		harness: harness?.attributes.some(isProofAttribute) ? harness : undefined,
+	};
+}
+
+// Return true for `#[kani::proof]` and `#[kani::proof_for_contract(...)]`
+function isProofAttribute(attribute: string): boolean {
+	const path = attribute.replace(/\s/g, '');
+	return path === '#[kani::proof]' || path.startsWith('#[kani::proof_for_contract(');
+}
+
+// Collect the attributes written above a function and qualify its name with its modules
+function getHarnessAttributes(functionItem: any): HarnessAttributes {
+	const attributes: string[] = [];
+	let item = functionItem.previousNamedSibling;
+	while (item && ['attribute_item', 'line_comment', 'block_comment'].includes(item.type)) {
+		if (item.type === 'attribute_item') {
+			attributes.unshift(item.text);
+		}
+		item = item.previousNamedSibling;
+	}
+
+	const segments: string[] = [functionItem.childForFieldName('name')?.text];
+	for (let parent = functionItem.parent; parent; parent = parent.parent) {
+		if (parent.type === 'mod_item') {
+			segments.unshift(parent.childForFieldName('name')?.text);
+		}
+	}
+	return { name: segments.join('::'), attributes };
+}
+
+// Return the arguments of the attributes with the path, i.e `10` for `#[kani::unwind(10)]`
+function getAttributeArgs(attributes: string[], path: string): string[] {
+	return attributes
+		.map((attribute) => attribute.replace(/\s/g, ''))
+		.filter((attribute) => attribute.startsWith(`#[${path}(`))
+		.map((attribute) => attribute.slice(path.length + 3, attribute.lastIndexOf(')')));
+}
+
+/**
+ * Work out the unwind bound and the solver Kani uses for a harness. Flags override the attributes
+ * of the harness, except `default-unwind` which only applies to harnesses without a bound.
+ *
+ * @param attributes - attributes of the harness
+ * @param flags - flags from the Kani configuration that apply to the harness
+ */
+export function getEffectiveSettings(
+	attributes: string[],
+	flags: Record<string, KaniFlagValue>,
+): { unwind: EffectiveSetting; solver: EffectiveSetting } {
+	const [unwindAttribute] = getAttributeArgs(attributes, 'kani::unwind');
+	const [solverAttribute] = getAttributeArgs(attributes, 'kani::solver');
+
+	let unwind: EffectiveSetting = {
+		source: 'no bound, loops are unwound until they terminate',
+	};
+	if (flags['unwind'] !== undefined && flags['unwind'] !== false) {
+		unwind = { value: String(flags['unwind']), source: '`unwind` in the Kani configuration' };
+	} else if (unwindAttribute !== undefined) {
+		unwind = { value: unwindAttribute, source: '`#[kani::unwind]`' };
+	} else if (flags['default-unwind'] !== undefined && flags['default-unwind'] !== false) {
+		unwind = {
+			value: String(flags['default-unwind']),
+			source: '`default-unwind` in the Kani configuration',
+		};
+	}
+
+	let solver: EffectiveSetting = { source: "Kani's default solver" };
+	if (typeof flags['solver'] === 'string') {
+		solver = { value: flags['solver'], source: '`solver` in the Kani configuration' };
+	} else if (solverAttribute !== undefined) {
+		solver = { value: solverAttribute, source: '`#[kani::solver]`' };
+	}
+	return { unwind, solver };
+}
+
+// Describe an effective setting, i.e `10 (from #[kani::unwind])`
+function formatSetting(label: string, setting: EffectiveSetting): string {
+	return setting.value === undefined
+		? `- ${label}: ${setting.source}`
+		: `- ${label}: \`${setting.value}\` (from ${setting.source})`;
+}
+
+/**
+ * Shows the documentation of Kani attributes and APIs in Rust files, with the values Kani uses
+ * for the harness the attribute belongs to
+ */
+export class KaniHoverProvider implements vscode.HoverProvider {
+	// Parse trees of the documents, reused while the document is unchanged
+	private parsedDocuments = new Map<string, { version: number; tree: any }>();
+	// Kani configuration of each file, read again once the manifests change
+	private configs = new Map<string, Promise<KaniConfig>>();
+
+	public async provideHover(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): Promise<vscode.Hover | undefined> {
+		const tree = await this.getTree(document);
+		if (tree === undefined) {
+			return undefined;
+		}
+		const item = findKaniItemAt(tree.rootNode, {
+			row: position.line,
+			column: position.character,
+		});
+		if (item === undefined) {
+			return undefined;
+		}
+
+		const markdown = new vscode.MarkdownString();
+		markdown.appendCodeblock(item.doc.signature, 'rust');
+		markdown.appendMarkdown(`${item.doc.description}\n\n`);
+		if (item.doc.args !== undefined) {
+			markdown.appendMarkdown('**Arguments**\n\n');
+			markdown.appendMarkdown(
+				item.doc.args.map(([name, description]) => `- \`${name}\`: ${description}`).join('\n'),
+			);
+			markdown.appendMarkdown('\n\n');
+		}
+		markdown.appendMarkdown('**Example**\n');
+		markdown.appendCodeblock(item.doc.example, 'rust');
+
+		if (item.doc.kind === 'attribute' && item.harness !== undefined) {
+			const effective = await this.describeHarness(document.uri, item.name, item.harness);
+			if (effective.length > 0) {
+				markdown.appendMarkdown(`---\n\n**Harness \`${item.harness.name}\`**\n\n`);
+				markdown.appendMarkdown(effective.join('\n'));
+			}
+		}
+
+		const { start, end } = item.range;
+		return new vscode.Hover(
+			markdown,
+			new vscode.Range(start.row, start.column, end.row, end.column),
+		);
+	}
+
+	// Forget the parse tree of a document once it is closed
+	public clearDocument(document: vscode.TextDocument): void {
+		this.parsedDocuments.delete(document.uri.toString());
+	}
+
+	// Forget the Kani configurations, i.e after a manifest changed
+	public clearConfigs(): void {
+		this.configs.clear();
+	}
+
+	private async getTree(document: vscode.TextDocument): Promise<any> {
+		const key = document.uri.toString();
+		const parsed = this.parsedDocuments.get(key);
+		if (parsed !== undefined && parsed.version === document.version) {
+			return parsed.tree;
+		}
+		const text = document.getText();
+		const tree = text.includes('kani') ? (await loadParser()).parse(text) : undefined;
+		this.parsedDocuments.set(key, { version: document.version, tree });
+		return tree;
+	}
+
+	private getConfig(fileUri: vscode.Uri): Promise<KaniConfig> {
+		const key = fileUri.toString();
+		let config = this.configs.get(key);
+		if (config === undefined) {
+			config = getKaniConfig(fileUri);
+			this.configs.set(key, config);
+		}
+		return config;
+	}
+
+	// List the values that the hovered attribute sets for its harness
+	private async describeHarness(
+		fileUri: vscode.Uri,
+		name: string,
+		harness: HarnessAttributes,
+	): Promise<string[]> {
+		const { flags } = getHarnessConfig(await this.getConfig(fileUri), harness.name);
+		const { unwind, solver } = getEffectiveSettings(harness.attributes, flags);
+		const stubs = getAttributeArgs(harness.attributes, 'kani::stub').map((args) =>
+			args.replace(',', ' → '),
+		);
+
+		switch (name) {
+			case 'kani::proof':
+				return [formatSetting('Unwind bound', unwind), formatSetting('Solver', solver)];
+			case 'kani::unwind':
+				return [formatSetting('Unwind bound', unwind)];
+			case 'kani::solver':
+				return [formatSetting('Solver', solver)];
+			case 'kani::stub':
+				return stubs.map((stub) => `- Stub: \`${stub}\``);
+			default:
+				return [];
+		}
+	}
+}
@@ -0,0 +1,78 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as vscode from 'vscode';
+
+import GlobalConfig from '../globalConfig';
+import { updateCapabilityContext } from '../model/kaniCapabilities';
+import {
+	KaniInstallation,
+	findKaniInstallations,
+	resolveKaniPath,
+} from '../model/kaniInstallations';
+import { getKaniVersion, readKaniVersion } from '../model/kaniRunner';
+import { showErrorWithReportIssueButton } from '../utils';
+
+interface InstallationItem extends vscode.QuickPickItem {
+	installation: KaniInstallation;
+}
+
+/**
+ * Resolve the Kani installation from the settings and store it in the global config, so that the
+ * following Kani invocations use it
+ *
+ * @throws if no Kani installation could be found
+ */
+export async function loadKaniInstallation(): Promise<void> {
+	const globalConfig = GlobalConfig.getInstance();
+	const kaniBinaryPath = resolveKaniPath();
+	globalConfig.setFilePath(kaniBinaryPath);
+
+	vscode.window.showInformationMessage(
+		`Kani located at ${kaniBinaryPath} being used for verification`,
+	);
+
+	// GET Version number and display to user
+	await getKaniVersion(globalConfig.getFilePath());
+	await updateCapabilityContext();
+}
+
+// Load the installation again after the settings changed, keeping the previous one if it fails
+export async function reloadKaniInstallation(): Promise<void> {
+	try {
+		await loadKaniInstallation();
+	} catch (error) {
+		showErrorWithReportIssueButton((error as Error).message);
+	}
+}
+
+// Let the user pick one of the Kani installations found on the machine
+export async function selectKaniInstallation(): Promise<void> {
+	const installations = findKaniInstallations();
+	if (installations.length === 0) {
+		vscode.window.showWarningMessage('No Kani installation was found.');
+		return;
+	}
+
+	const activePath = GlobalConfig.getInstance().getFilePath();
+	const items: InstallationItem[] = await Promise.all(
+		installations.map(async (installation) => ({
+			label: installation.path === activePath ? `$(check) ${installation.path}` : installation.path,
+			description: (await readKaniVersion(installation.path)) ?? 'unknown version',
+			detail: installation.source,
+			installation: installation,
+		})),
+	);
+
+	const picked = await vscode.window.showQuickPick(items, {
+		placeHolder: 'Select the Kani installation used for verification',
+	});
+	if (picked === undefined) {
+		return;
+	}
+
+	// Stored per workspace since projects can pin different Kani versions. The installation is
+	// loaded when the configuration change is observed.
+	await vscode.workspace
+		.getConfiguration('Kani')
+		.update('executablePath', picked.installation.path, vscode.ConfigurationTarget.Workspace);
+}
@@ -0,0 +1,115 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+const sharedChannelName = 'Kani';
+// Channels created when every harness gets its own channel, the least recently used are disposed
+const maxHarnessChannels = 10;
+// Kani reports locations relative to the directory it runs in, i.e `src/lib.rs:10:5`
+const locationPattern = /(^|[\s'"(])([\w.\-/\\]+\.rs):(\d+)(:\d+)?/gm;
+
+interface ManagedChannel {
+	channel: vscode.OutputChannel;
+	runs: string[];
+}
+
+/**
+ * Owns the output channels that Kani's output is written to. Runs are appended to a single
+ * `Kani` channel, or to one channel per harness if `Kani.outputChannelPerHarness` is set, and only
+ * the latest `Kani.outputRetentionRuns` runs are kept in each channel.
+ */
+class OutputManager {
+	private static instance: OutputManager;
+	private channels: Map<string, ManagedChannel>;
+
+	private constructor() {
+		this.channels = new Map();
+	}
+
+	public static getInstance(): OutputManager {
+		if (!OutputManager.instance) {
+			OutputManager.instance = new OutputManager();
+		}
+		return OutputManager.instance;
+	}
+
+	/**
+	 * Append the output of a run to its channel, separated from the previous runs by a header
+	 *
+	 * @param title - harnesses or action the run belongs to
+	 * @param content - output of the run
+	 * @param cwd - directory Kani ran in, relative source locations are resolved against it
+	 * @param show - reveal the channel without taking the focus
+	 */
+	public appendRun(title: string, content: string, cwd?: string, show = false): void {
+		const config = vscode.workspace.getConfiguration('Kani');
+		const perHarness = config.get('outputChannelPerHarness', false);
+		const retention = Math.max(1, config.get('outputRetentionRuns', 20));
+
+		const managed = this.getChannel(perHarness ? `Kani: ${title}` : sharedChannelName);
+		const header = `===== ${title} - ${new Date().toLocaleString()} =====`;
+		const run = `${header}\n${linkSourceLocations(content, cwd)}\n`;
+		managed.runs.push(run);
+
+		// Output channels can't drop their first lines, so the retained runs are written again
+		if (managed.runs.length > retention) {
+			managed.runs.splice(0, managed.runs.length - retention);
+			managed.channel.clear();
+			managed.channel.append(managed.runs.join('\n'));
+		} else {
+			managed.channel.append(managed.runs.length > 1 ? `\n${run}` : run);
+		}
+
+		if (show) {
+			managed.channel.show(true);
+		}
+	}
+
+	public dispose(): void {
+		for (const { channel } of this.channels.values()) {
+			channel.dispose();
+		}
+		this.channels.clear();
+	}
+
+	private getChannel(name: string): ManagedChannel {
+		let managed = this.channels.get(name);
+		if (managed) {
+			// Keep the map ordered from the least to the most recently used channel
+			this.channels.delete(name);
+		} else {
+			managed = { channel: vscode.window.createOutputChannel(name), runs: [] };
+		}
+		this.channels.set(name, managed);
+
+		if (this.channels.size > maxHarnessChannels) {
+			const [oldestName, oldest] = this.channels.entries().next().value;
+			oldest.channel.dispose();
+			this.channels.delete(oldestName);
+		}
+		return managed;
+	}
+}
+
+/**
+ * Rewrite the source locations in Kani's output as absolute paths, which the output view turns
+ * into links to the location
+ *
+ * @param content - output of Kani
+ * @param cwd - directory Kani ran in
+ * @returns the output with absolute source locations
+ */
+export function linkSourceLocations(content: string, cwd?: string): string {
+	if (cwd === undefined) {
+		return content;
+	}
+	return content.replace(
+		locationPattern,
+		(match: string, prefix: string, file: string, line: string, column?: string) =>
+			path.isAbsolute(file) ? match : `${prefix}${path.resolve(cwd, file)}:${line}${column ?? ''}`,
+	);
+}
+
+export default OutputManager;
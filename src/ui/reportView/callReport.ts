@@ -8,13 +8,18 @@ import * as vscode from 'vscode';
 
 import { KaniArguments, KaniConstants } from '../../constants';
 import GlobalConfig from '../../globalConfig';
+import { ensureFeatureSupported } from '../../model/kaniCapabilities';
+import { getHarnessConfigArgs } from '../../model/kaniConfig';
+import { parseKaniTextOutput } from '../../model/kaniOutputParser';
 import {
 	CommandArgs,
-	checkCargoExist,
-	getRootDir,
+	getCrateRoot,
 	showErrorWithReportIssueButton,
 	splitCommand,
 } from '../../utils';
+import OutputManager from '../outputManager';
+import ReportHistory from './reportHistory';
+import { openReport } from './reportPanel';
 
 const { execFile } = require('child_process');
 const { promisify } = require('util');
@@ -22,15 +27,8 @@ const execPromise = promisify(execFile);
 const warningMessage = `Report generation is an unstable feature.
 Coverage information has been disabled due recent issues involving incorrect results.`;
 
-interface htmlMetaData {
-	finalCommand: string;
-	searchDir: string;
-}
-
 interface visualizeResult {
-	isLocal: boolean;
-	path?: string;
-	command?: string;
+	path: string;
 }
 
 interface reportMetadata {
@@ -53,31 +51,39 @@ export async function callViewerReport(
 		harnessType: boolean;
 	},
 ): Promise<void> {
+	// The installed Kani may not support this action, in which case the user is told why
+	if (!(await ensureFeatureSupported('report'))) {
+		return;
+	}
+
 	let finalCommand: string = '';
-	let searchDir: string = '';
 
 	const platform: NodeJS.Platform = process.platform;
 	const harnessName: string = harnessObj.harnessName;
 	const harnessType: boolean = harnessObj.harnessType;
-
-	// Detect source file
-	const terminal = vscode.window.activeTerminal ?? vscode.window.createTerminal();
+	// Run Kani in the crate that contains the harness
+	const harnessUri = vscode.Uri.file(harnessObj.harnessFile);
+	const crateRoot: string = getCrateRoot(harnessUri);
 
 	// Generate the final visualize command for the supported platforms
 	if (platform === 'darwin' || platform == 'linux') {
-		const responseObject: htmlMetaData = createCommand(commandURI, harnessName, harnessType);
-		const crateURI: string = getRootDir();
-		finalCommand = `${responseObject.finalCommand}`;
-		searchDir = responseObject.searchDir;
+		finalCommand = createCommand(commandURI, harnessName, harnessType);
 	}
 
 	// Wait for the visualize command to finish generating the report
-	const processOutput: reportMetadata = await runVisualizeCommand(finalCommand, harnessName);
+	const configArgs = await getHarnessConfigArgs(harnessUri, harnessName);
+	const processOutput: reportMetadata = await runVisualizeCommand(
+		finalCommand,
+		harnessName,
+		crateRoot,
+		configArgs,
+	);
 	if (processOutput.statusCode != 0) {
 		showVisualizeError(processOutput);
 		return;
 	}
-	showReportMetadata(terminal, processOutput);
+	const report = await ReportHistory.getInstance().add(harnessObj, processOutput.result!.path);
+	openReport(report);
 }
 
 // Show an error depending on the code we received
@@ -97,68 +103,37 @@ function showVisualizeError(output: reportMetadata): void {
 	return;
 }
 
-// Shows an option to open the report in a browser. The process depends on
-// whether the extension executes on a local or remote environment.
-async function showReportMetadata(
-	terminal: vscode.Terminal,
-	output: reportMetadata,
-): Promise<void> {
-	if (output.result?.isLocal) {
-		// Shows a message with a button. Clicking the button opens the report
-		// in a browser.
-		const response = await vscode.window.showInformationMessage(
-			'Report has been generated',
-			'Open in Browser',
-		);
-		if (response == 'Open in Browser') {
-			const uriPath = vscode.Uri.file(output.result?.path ?? '');
-			vscode.env.openExternal(uriPath);
-		}
-	} else {
-		// Sends a command to the terminal that will start an HTTP server.
-		// VSCode automatically detects this and shows a message that allows
-		// you to open the report in a browser.
-		terminal.sendText(output.result?.command ?? '');
-		terminal.show();
-	}
-}
-
-// Check if cargo toml exists and create corresponding kani command
-function createCommand(
-	commandURI: string,
-	harnessName: string,
-	harnessType: boolean,
-): htmlMetaData {
-	// Check if cargo toml exists
-	let finalCommand: string = '';
-	let searchDir: string = '';
-
+// Create the kani command that generates the report of the harness
+function createCommand(commandURI: string, harnessName: string, harnessType: boolean): string {
 	if (harnessType) {
 		const command: string = commandURI === 'Kani.runViewerReport' ? 'cargo kani' : 'kani';
-		finalCommand = `${command} --harness ${harnessName} --enable-unstable --visualize`;
-		searchDir = path.join(getRootDir(), 'target');
-	} else {
-		finalCommand = `${KaniConstants.CargoKaniExecutableName} ${KaniArguments.testsFlag} ${KaniArguments.harnessFlag} ${harnessName} --enable-unstable --visualize`;
-		searchDir = path.join(getRootDir(), 'target');
+		return `${command} --harness ${harnessName} --enable-unstable --visualize`;
 	}
-
-	return { finalCommand, searchDir };
+	return `${KaniConstants.CargoKaniExecutableName} ${KaniArguments.testsFlag} ${KaniArguments.harnessFlag} ${harnessName} --enable-unstable --visualize`;
 }
 
 /**
  * Run the visualize command to generate the report, parse the output and return the result
  *
  * @param command - the cargo kani | kani command to run --visualize
+ * @param harnessName - name of the harness
+ * @param crateRoot - directory of the crate containing the harness
+ * @param configArgs - arguments from the Kani configuration of the package
  * @returns - the result of executing the visualize command and parsing the output
  */
-async function runVisualizeCommand(command: string, harnessName: string): Promise<reportMetadata> {
+async function runVisualizeCommand(
+	command: string,
+	harnessName: string,
+	crateRoot: string,
+	configArgs: string[],
+): Promise<reportMetadata> {
+	// Get the full resolved path for the root directory of the crate
+	const directory = path.resolve(crateRoot);
 	try {
-		// Get the full resolved path for the root directory of the crate
-		const directory = path.resolve(getRootDir());
 		const commmandSplit: CommandArgs = splitCommand(command);
 
 		// Get args for the command to be executed
-		const args = commmandSplit.args;
+		const args = [...commmandSplit.args, ...configArgs];
 
 		const options = {
 			shell: false,
@@ -171,77 +146,53 @@ async function runVisualizeCommand(command: string, harnessName: string): Promis
 		vscode.window.showInformationMessage(`Generating viewer report for ${harnessName}`);
 		vscode.window.showWarningMessage(warningMessage);
 		const { stdout, stderr } = await execPromise(kaniBinaryPath, args, options);
-		const parseResult = await parseReportOutput(stdout);
+		const showOutputWindow = vscode.workspace
+			.getConfiguration('Kani')
+			.get('showOutputWindow', false);
+		OutputManager.getInstance().appendRun(
+			`Report: ${harnessName}`,
+			stdout,
+			directory,
+			showOutputWindow,
+		);
+		const parseResult = parseReportOutput(stdout, directory);
 		if (parseResult === undefined) {
 			return { statusCode: 2, result: undefined, error: stderr };
 		}
-		console.error(`stderr: ${stderr}`);
 
 		return { statusCode: 0, result: parseResult };
 	} catch (error) {
-		console.error(`exec error: ${error}`);
-		return { statusCode: 1, result: undefined, error: error as string };
+		const message = (error as Error).message;
+		OutputManager.getInstance().appendRun(
+			`Error: Report: ${harnessName}`,
+			message,
+			directory,
+			true,
+		);
+		return { statusCode: 1, result: undefined, error: message };
 	}
 }
 
 /**
- * Search for the path to the report printed in Kani's output, and detect if we are in a remote
- * enviroment before returning the result.
+ * Search for the path to the report printed in Kani's output
  *
  * @param stdout - Kani's standard output after running the visualize command
- * @returns - undefined (error) or a result that indicates if the extension is executed on a local
- *  or remote environment. The result includes a `path` (if local) or a `command` (if remote).
+ * @param directory - directory Kani ran in, which a relative path is resolved against
+ * @returns - undefined (error) or the path of the `index.html` page of the report
  */
-async function parseReportOutput(stdout: string): Promise<visualizeResult | undefined> {
-	const kaniOutput: string = stdout;
-	const kaniOutputArray: string[] = kaniOutput.split('\n');
-	const searchString: string = 'Report written to: ';
-
-	for (const outputString of kaniOutputArray) {
-		if (outputString.startsWith(searchString)) {
-			const reportPath: string = outputString.substring(searchString.length);
-
-			// Check if the path exists as expected
-			const filePathExists: boolean = await checkPathExists(reportPath);
-			if (!filePathExists) {
-				return undefined;
-			}
-
-			// Determine if the environment is remote
-			if (process.env.SSH_CONNECTION !== undefined) {
-				// Generate the command using the path to the directory
-				const reportDir = reportPath.replace('/index.html', '');
-				return {
-					isLocal: false,
-					command: 'python3 -m http.server --directory ' + reportDir,
-				};
-			} else {
-				return { isLocal: true, path: reportPath };
-			}
-		}
-	}
+function parseReportOutput(stdout: string, directory: string): visualizeResult | undefined {
+	const reportPath: string | undefined = parseKaniTextOutput(stdout).reportPath;
 
 	// No command found from Kani
-	return undefined;
-}
+	if (reportPath === undefined) {
+		return undefined;
+	}
 
-// Util function to find the path of the report from the harness name
-async function checkPathExists(serverCommand: string): Promise<boolean> {
-	// Kani returns a structured string, using that structure
-	// to find the filepath embedded in the command string
-	const lastSlashIndex: number = serverCommand.lastIndexOf('/');
-
-	if (lastSlashIndex !== -1) {
-		const match: string = serverCommand.substring(lastSlashIndex);
-		if (match) {
-			// Even if the path can be extracted from Kani's output, it's not
-			// necessary that the html file was created, so this needs to be checked
-			const exists: boolean = fs.existsSync(match[0]);
-			return exists;
-		} else {
-			return false;
-		}
-	} else {
-		return false;
+	// Even if the path can be extracted from Kani's output, it's not
+	// necessary that the html file was created, so this needs to be checked
+	const resolvedPath = path.resolve(directory, reportPath.trim());
+	if (!fs.existsSync(resolvedPath)) {
+		return undefined;
 	}
+	return { path: resolvedPath };
 }
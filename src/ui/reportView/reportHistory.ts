@@ -0,0 +1,109 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+const historyStorageKey = 'kani.reports';
+
+/**
+ * HTML report generated for a harness
+ *
+ * @param harnessName - name of the harness the report is for
+ * @param harnessFile - path of the file that contains the harness
+ * @param directory - directory the report was copied to, which is served to the report view
+ * @param indexPath - path of the page to open, relative to the directory
+ * @param generatedAt - time the report was generated, in milliseconds since the epoch
+ */
+export interface GeneratedReport {
+	harnessName: string;
+	harnessFile: string;
+	directory: string;
+	indexPath: string;
+	generatedAt: number;
+}
+
+// Keeps the reports generated for the harnesses of the workspace. Kani writes the report of a
+// harness to the same directory on every run, so each report is copied to the storage of the
+// extension to keep the previous ones.
+class ReportHistory {
+	private static instance: ReportHistory;
+	private storage: vscode.Memento | undefined;
+	private storageDirectory: string | undefined;
+
+	private constructor() {
+		this.storage = undefined;
+	}
+
+	public static getInstance(): ReportHistory {
+		if (!ReportHistory.instance) {
+			ReportHistory.instance = new ReportHistory();
+		}
+		return ReportHistory.instance;
+	}
+
+	/**
+	 * @param storage - state the list of reports is kept in
+	 * @param storageDirectory - directory the reports are copied to
+	 */
+	public setStorage(storage: vscode.Memento, storageDirectory: string): void {
+		this.storage = storage;
+		this.storageDirectory = storageDirectory;
+	}
+
+	/**
+	 * Copy a report written by Kani and add it to the history
+	 *
+	 * @param harness - name and file of the harness the report is for
+	 * @param reportPath - path of the `index.html` page printed by Kani
+	 * @returns the report in the history
+	 */
+	public async add(
+		harness: { harnessName: string; harnessFile: string },
+		reportPath: string,
+	): Promise<GeneratedReport> {
+		// Kani writes the pages to an `html` directory next to the files they link to
+		let sourceDirectory = path.dirname(reportPath);
+		if (path.basename(sourceDirectory) === 'html') {
+			sourceDirectory = path.dirname(sourceDirectory);
+		}
+
+		const generatedAt = Date.now();
+		const directory = path.join(
+			this.storageDirectory ?? path.dirname(sourceDirectory),
+			'reports',
+			`${harness.harnessName.replace(/[^\w-]/g, '_')}-${generatedAt}`,
+		);
+		await fs.promises.cp(sourceDirectory, directory, { recursive: true });
+
+		const report: GeneratedReport = {
+			...harness,
+			directory,
+			indexPath: path.relative(sourceDirectory, reportPath),
+			generatedAt,
+		};
+		await this.storage?.update(historyStorageKey, [report, ...this.getReports()]);
+		return report;
+	}
+
+	// Return the reports that still exist on disk, the newest first
+	public list(): GeneratedReport[] {
+		return this.getReports().filter((report) => fs.existsSync(report.directory));
+	}
+
+	// Delete the copy of the report and remove it from the history
+	public async remove(report: GeneratedReport): Promise<void> {
+		await fs.promises.rm(report.directory, { recursive: true, force: true });
+		await this.storage?.update(
+			historyStorageKey,
+			this.getReports().filter((entry) => entry.directory !== report.directory),
+		);
+	}
+
+	private getReports(): GeneratedReport[] {
+		return [...(this.storage?.get<GeneratedReport[]>(historyStorageKey, []) ?? [])];
+	}
+}
+
+export default ReportHistory;
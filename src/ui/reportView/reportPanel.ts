@@ -0,0 +1,99 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as vscode from 'vscode';
+
+import ReportHistory, { GeneratedReport } from './reportHistory';
+import ReportServer from './reportServer';
+
+// Open report views, keyed by the directory of their report
+const openPanels = new Map<string, vscode.WebviewPanel>();
+
+/**
+ * Show a report in an editor tab. The report is loaded from the report server in a frame, so that
+ * its pages can link to each other.
+ *
+ * @param report - report to show
+ */
+export async function openReport(report: GeneratedReport): Promise<void> {
+	const existing = openPanels.get(report.directory);
+	if (existing !== undefined) {
+		existing.reveal();
+		return;
+	}
+
+	const pageUri = await ReportServer.getInstance().getPageUri(report.directory, report.indexPath);
+	const panel = vscode.window.createWebviewPanel(
+		'kaniReport',
+		`Kani report: ${report.harnessName}`,
+		vscode.ViewColumn.Active,
+		{ enableScripts: true, retainContextWhenHidden: true },
+	);
+	openPanels.set(report.directory, panel);
+	panel.onDidDispose(() => openPanels.delete(report.directory));
+
+	const origin = `${pageUri.scheme}://${pageUri.authority}`;
+	panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; frame-src ${origin}; style-src 'unsafe-inline';">
+<style>
+	html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+	iframe { width: 100%; height: 100%; border: none; background: white; }
+</style>
+</head>
+<body>
+<iframe src="${pageUri.toString(true)}"></iframe>
+</body>
+</html>`;
+}
+
+/**
+ * Let the user pick a generated report to open, or delete reports with the button of each item
+ *
+ * @param harnessName - only list the reports of this harness, if given
+ */
+export async function pickReport(harnessName?: string): Promise<void> {
+	const history = ReportHistory.getInstance();
+	const deleteButton: vscode.QuickInputButton = {
+		iconPath: new vscode.ThemeIcon('trash'),
+		tooltip: 'Delete report',
+	};
+	const createItems = (): (vscode.QuickPickItem & { report: GeneratedReport })[] =>
+		history
+			.list()
+			.filter((report) => harnessName === undefined || report.harnessName === harnessName)
+			.map((report) => ({
+				label: report.harnessName,
+				description: new Date(report.generatedAt).toLocaleString(),
+				detail: vscode.workspace.asRelativePath(report.harnessFile),
+				buttons: [deleteButton],
+				report,
+			}));
+
+	const quickPick = vscode.window.createQuickPick<
+		vscode.QuickPickItem & { report: GeneratedReport }
+	>();
+	quickPick.placeholder = 'Select a Kani report to open';
+	quickPick.items = createItems();
+	if (quickPick.items.length === 0) {
+		vscode.window.showInformationMessage('No Kani reports have been generated yet');
+		quickPick.dispose();
+		return;
+	}
+
+	quickPick.onDidTriggerItemButton(async ({ item }) => {
+		openPanels.get(item.report.directory)?.dispose();
+		await history.remove(item.report);
+		quickPick.items = createItems();
+	});
+	quickPick.onDidAccept(() => {
+		const [selected] = quickPick.selectedItems;
+		quickPick.hide();
+		if (selected !== undefined) {
+			openReport(selected.report);
+		}
+	});
+	quickPick.onDidHide(() => quickPick.dispose());
+	quickPick.show();
+}
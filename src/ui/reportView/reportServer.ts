@@ -0,0 +1,129 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+// Content types of the files found in the reports of cbmc-viewer
+const contentTypes: Record<string, string> = {
+	'.html': 'text/html; charset=utf-8',
+	'.css': 'text/css; charset=utf-8',
+	'.js': 'text/javascript; charset=utf-8',
+	'.json': 'application/json; charset=utf-8',
+	'.svg': 'image/svg+xml',
+	'.png': 'image/png',
+	'.txt': 'text/plain; charset=utf-8',
+};
+
+/**
+ * Resolve the path of a request to a file of a served directory
+ *
+ * @param directories - served directories, keyed by the first segment of the path
+ * @param requestPath - path of the request, i.e `/1/html/index.html`
+ * @returns the path of the file, or undefined if the request is outside of the served directories
+ * or its path is malformed
+ */
+export function resolveRequestPath(
+	directories: Map<string, string>,
+	requestPath: string,
+): string | undefined {
+	let decodedPath: string;
+	try {
+		decodedPath = decodeURIComponent(requestPath.split('?')[0]);
+	} catch (error) {
+		// The path has an escape sequence that is not valid UTF-8
+		return undefined;
+	}
+	const [, id, ...segments] = decodedPath.split('/');
+	const directory = directories.get(id);
+	if (directory === undefined) {
+		return undefined;
+	}
+	const filePath = path.resolve(directory, ...segments);
+	if (filePath !== directory && !filePath.startsWith(directory + path.sep)) {
+		return undefined;
+	}
+	return filePath;
+}
+
+// Serves the HTML reports to the report view over HTTP on the loopback interface. The pages of a
+// report link to each other, which only works when they are loaded from a server.
+class ReportServer {
+	private static instance: ReportServer;
+	private server: Promise<http.Server> | undefined;
+	private directories: Map<string, string>;
+
+	private constructor() {
+		this.directories = new Map();
+	}
+
+	public static getInstance(): ReportServer {
+		if (!ReportServer.instance) {
+			ReportServer.instance = new ReportServer();
+		}
+		return ReportServer.instance;
+	}
+
+	/**
+	 * Serve a directory, starting the server on first use
+	 *
+	 * @param directory - directory that contains the report
+	 * @param page - page to open, relative to the directory
+	 * @returns the address of the page, forwarded to the client in remote sessions
+	 */
+	public async getPageUri(directory: string, page: string): Promise<vscode.Uri> {
+		const resolved = path.resolve(directory);
+		let id = [...this.directories].find(([, served]) => served === resolved)?.[0];
+		if (id === undefined) {
+			id = `${this.directories.size + 1}`;
+			this.directories.set(id, resolved);
+		}
+
+		const server = await this.start();
+		const port = (server.address() as AddressInfo).port;
+		const pagePath = page.split(path.sep).map(encodeURIComponent).join('/');
+		return vscode.env.asExternalUri(vscode.Uri.parse(`http://127.0.0.1:${port}/${id}/${pagePath}`));
+	}
+
+	public dispose(): void {
+		this.server?.then((server) => server.close());
+		this.server = undefined;
+		this.directories.clear();
+	}
+
+	private start(): Promise<http.Server> {
+		if (this.server === undefined) {
+			this.server = new Promise((resolve, reject) => {
+				const server = http.createServer((request, response) => this.handle(request, response));
+				server.once('error', reject);
+				// Only this machine can reach the reports, port 0 picks a free port
+				server.listen(0, '127.0.0.1', () => resolve(server));
+			});
+			// Start again on next use if the server could not listen
+			this.server.catch(() => (this.server = undefined));
+		}
+		return this.server;
+	}
+
+	private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+		const filePath = resolveRequestPath(this.directories, request.url ?? '/');
+		if (filePath === undefined || request.method !== 'GET') {
+			response.writeHead(404).end();
+			return;
+		}
+		fs.readFile(filePath, (error, content) => {
+			if (error) {
+				response.writeHead(404).end();
+				return;
+			}
+			const contentType =
+				contentTypes[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+			response.writeHead(200, { 'Content-Type': contentType }).end(content);
+		});
+	}
+}
+
+export default ReportServer;
@@ -7,7 +7,7 @@ import * as vscode from 'vscode';
 import Parser from 'web-tree-sitter';
 
 import { countOccurrences, getConcatenatedModuleName } from '../utils';
-import { HarnessMetadata } from './sourceMap';
+import { ConcretePlaybackTest, ConcreteValue, HarnessMetadata, KaniAnyCall } from './sourceMap';
 
 // Parse for kani::proof helper function
 export async function loadParser(): Promise<Parser> {
@@ -148,6 +148,10 @@ export namespace SourceCodeParser {
 							attributes: attributesMetadata,
 							args: { proof: true, test: test_bool, stub: stub_bool },
 						};
+						const timeout = findTimeoutComment(strList, i, j);
+						if (timeout !== undefined) {
+							current_harness.timeout = timeout;
+						}
 						resultMap.push(current_harness);
 						break;
 					}
@@ -157,6 +161,29 @@ export namespace SourceCodeParser {
 		return resultMap;
 	}
 
+	// Find a `// kani-timeout: <seconds>` comment among the attributes of a harness, or right above them.
+	// `start` is the index of the proof attribute and `end` the index of the function item.
+	export function findTimeoutComment(
+		strList: any[],
+		start: number,
+		end: number,
+	): number | undefined {
+		let first = start;
+		while (first > 0 && ['attribute_item', 'line_comment'].includes(strList[first - 1].type)) {
+			first--;
+		}
+		for (let k = first; k < end; k++) {
+			if (strList[k].type !== 'line_comment') {
+				continue;
+			}
+			const timeoutMatch = strList[k].text.match(/kani-timeout:\s*(\d+)/);
+			if (timeoutMatch) {
+				return parseInt(timeoutMatch[1]);
+			}
+		}
+		return undefined;
+	}
+
 	// Search if there exists a kani attribute
 	export function checkforKani(node: any): boolean {
 		// check for the kani::proof attribute
@@ -200,6 +227,140 @@ export namespace SourceCodeParser {
 		return result;
 	}
 
+	// Search for concrete playback generated unit tests, the values they replay and the
+	// `kani::any()` calls of their harness that produce the values
+	export async function extractConcretePlaybackValues(
+		text: string,
+	): Promise<ConcretePlaybackTest[]> {
+		const parser = await loadParser();
+		const tree = parser.parse(text);
+		const rootNode = tree.rootNode;
+
+		return findKaniTests(rootNode).map((function_item: any) => {
+			const concreteVals = function_item
+				.descendantsOfType('let_declaration')
+				.find((item: any) => item.childForFieldName('pattern')?.text === 'concrete_vals');
+			// The values are the `vec![...]` token trees inside the outer `vec![...]`
+			const outerVec = concreteVals?.childForFieldName('value');
+			const valueTrees: any[] =
+				outerVec?.type === 'macro_invocation'
+					? outerVec.namedChildren
+							.find((child: any) => child.type === 'token_tree')
+							?.namedChildren.filter((child: any) => child.type === 'token_tree') ?? []
+					: [];
+			const values: ConcreteValue[] = valueTrees.map((valueTree: any) => ({
+				bytes: valueTree.namedChildren
+					.filter((child: any) => child.type === 'integer_literal')
+					.map((child: any) => parseInt(child.text)),
+				// Start at the `vec` of `vec![...]`
+				startPosition: (valueTree.previousNamedSibling ?? valueTree).startPosition,
+				endPosition: valueTree.endPosition,
+			}));
+
+			// The harness is the last argument of `kani::concrete_playback_run(concrete_vals, harness)`
+			const playbackRun = function_item
+				.descendantsOfType('call_expression')
+				.find((item: any) =>
+					item.childForFieldName('function')?.text.endsWith('concrete_playback_run'),
+				);
+			const harnessPath: string | undefined = playbackRun
+				?.childForFieldName('arguments')
+				?.namedChildren.at(-1)?.text;
+			const harnessName = harnessPath?.split('::').at(-1);
+			const harness = rootNode
+				.descendantsOfType('function_item')
+				.find(
+					(item: any) =>
+						item !== function_item && item.childForFieldName('name')?.text === harnessName,
+				);
+
+			return {
+				testName: function_item.childForFieldName('name').text,
+				harnessName,
+				qualifiedHarnessName: harness ? qualifyWithModules(harness) : undefined,
+				values,
+				anyCalls: harness ? findKaniAnyCalls(harness) : [],
+			};
+		});
+	}
+
+	// Name of a function qualified with the inline modules it is declared in, i.e `module::harness`
+	function qualifyWithModules(function_item: any): string {
+		const segments: string[] = [function_item.childForFieldName('name')?.text];
+		for (let parent = function_item.parent; parent; parent = parent.parent) {
+			if (parent.type === 'mod_item') {
+				segments.unshift(parent.childForFieldName('name')?.text);
+			}
+		}
+		return segments.join('::');
+	}
+
+	/**
+	 * Find the harness that a concrete playback test replays
+	 *
+	 * @param text - source text of the file that contains the test
+	 * @param testName - name of the concrete playback test
+	 * @returns the harness name, qualified with its modules if the harness is in the same file
+	 */
+	export async function findPlaybackHarness(
+		text: string,
+		testName: string,
+	): Promise<string | undefined> {
+		const test = (await extractConcretePlaybackValues(text)).find(
+			(playbackTest) => playbackTest.testName === testName,
+		);
+		return test?.qualifiedHarnessName ?? test?.harnessName;
+	}
+
+	// Expressions whose body can run any number of times
+	const loopTypes = ['for_expression', 'while_expression', 'loop_expression', 'closure_expression'];
+
+	// Find the calls of `kani::any()` and `kani::any_where()` in a harness, in source order. An
+	// array of values is produced by one call for each element, so it counts as that many calls.
+	export function findKaniAnyCalls(harness: any): KaniAnyCall[] {
+		const calls: KaniAnyCall[] = [];
+		for (const call of harness.descendantsOfType('call_expression')) {
+			const callee = call.childForFieldName('function');
+			const path =
+				callee?.type === 'generic_function' ? callee.childForFieldName('function') : callee;
+			if (!['kani::any', 'kani::any_where'].includes(path?.text)) {
+				continue;
+			}
+
+			const binding = call.parent?.type === 'let_declaration' ? call.parent : undefined;
+			const type: string | undefined =
+				callee.type === 'generic_function'
+					? callee.childForFieldName('type_arguments')?.namedChildren.at(0)?.text
+					: binding?.childForFieldName('type')?.text;
+			const pattern = binding?.childForFieldName('pattern');
+			let inLoop = false;
+			for (let node = call.parent; node && node.id !== harness.id; node = node.parent) {
+				inLoop ||= loopTypes.includes(node.type);
+			}
+			const anyCall: KaniAnyCall = {
+				text: call.text,
+				startPosition: call.startPosition,
+				type,
+				variable: pattern?.type === 'identifier' ? pattern.text : undefined,
+				inLoop,
+			};
+
+			const array = type?.match(/^\[\s*(.+?)\s*;\s*(\d+)\s*\]$/);
+			if (array) {
+				for (let i = 0; i < parseInt(array[2]); i++) {
+					calls.push({
+						...anyCall,
+						type: array[1],
+						variable: anyCall.variable && `${anyCall.variable}[${i}]`,
+					});
+				}
+			} else {
+				calls.push(anyCall);
+			}
+		}
+		return calls;
+	}
+
 	// Find all concrete playback generated unit tests using tree walking
 	export function findKaniTests(rootNode: any): any[] {
 		// Find all attributes with `#[test]`, then filter those with the `concrete_playback` prefix
@@ -239,6 +400,7 @@ export namespace SourceCodeParser {
 				proofBoolean: boolean,
 				stub?: boolean,
 				moduleName?: string,
+				timeout?: number,
 			): void;
 		},
 	): Promise<void> => {
@@ -269,7 +431,7 @@ export namespace SourceCodeParser {
 
 					// Check if it's a proof (true) or a bolero case (false)
 					const proofBoolean = !harness.args.test;
-					events.onTest(range, name, proofBoolean, stub, module_name);
+					events.onTest(range, name, proofBoolean, stub, module_name, harness.timeout);
 				}
 			}
 		}
@@ -12,6 +12,8 @@ export interface FileMetaData {
 	filePackage: string;
 	crateName: string;
 	cratePath: string;
+	/// Arguments that select the target of the file, i.e `--lib` or `--bin <name>`
+	targetArgs: string[];
 }
 
 export interface HarnessMetadata {
@@ -22,6 +24,8 @@ export interface HarnessMetadata {
 	args: AttributeMetaData;
 	module?: string;
 	fileMetadata?: FileMetaData;
+	/// Time limit in seconds from a `// kani-timeout: <seconds>` comment on the harness
+	timeout?: number;
 }
 
 export interface AttributeMetaData {
@@ -33,6 +37,37 @@ export interface AttributeMetaData {
 	stub: boolean;
 }
 
+/// Concrete playback test generated by Kani and the values it replays
+export interface ConcretePlaybackTest {
+	testName: string;
+	/// Name of the harness passed to `kani::concrete_playback_run`
+	harnessName?: string;
+	/// Name of the harness qualified with the inline modules it is declared in, if the harness is in
+	/// the same file
+	qualifiedHarnessName?: string;
+	values: ConcreteValue[];
+	/// `kani::any()` calls of the harness in source order, if the harness is in the same file
+	anyCalls: KaniAnyCall[];
+}
+
+/// Bytes of one value in the `concrete_vals` of a concrete playback test
+export interface ConcreteValue {
+	bytes: number[];
+	startPosition: Position;
+	endPosition: Position;
+}
+
+export interface KaniAnyCall {
+	text: string;
+	startPosition: Position;
+	/// Type of the value, from the turbofish or the type of the `let` binding
+	type?: string;
+	/// Variable the value is bound to
+	variable?: string;
+	/// Whether the call is in a loop or closure of the harness, so it can return any number of values
+	inLoop: boolean;
+}
+
 interface Position {
 	column: number;
 	row: number;
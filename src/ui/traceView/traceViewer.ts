@@ -0,0 +1,309 @@
+// Copyright Kani Contributors
+// SPDX-License-Identifier: Apache-2.0 OR MIT
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+
+import * as vscode from 'vscode';
+
+import { KaniArguments } from '../../constants';
+import GlobalConfig from '../../globalConfig';
+import { ensureFeatureSupported } from '../../model/kaniCapabilities';
+import { getHarnessConfigArgs } from '../../model/kaniConfig';
+import { KaniTrace, getTraceVariables, parseKaniTraces } from '../../model/kaniTrace';
+import { getCrateRoot, getTargetArgsFromFilePath } from '../../utils';
+import { getSourceLocation } from '../diagnostics';
+
+// Messages sent by the webview when the user moves to another step
+interface TraceViewMessage {
+	command: 'select';
+	index: number;
+}
+
+/**
+ * Run the harness with CBMC traces and show the counterexample in the trace viewer
+ *
+ * @param harnessObj - metadata about the harness
+ */
+export async function callTraceViewer(harnessObj: {
+	harnessName: string;
+	harnessFile: string;
+	harnessType: boolean;
+}): Promise<void> {
+	// The installed Kani may not support this action, in which case the user is told why
+	if (!(await ensureFeatureSupported('trace'))) {
+		return;
+	}
+
+	const harnessName = harnessObj.harnessName;
+	const harnessUri = vscode.Uri.file(harnessObj.harnessFile);
+	const crateRoot = getCrateRoot(harnessUri);
+	const args = [
+		...(harnessObj.harnessType ? [] : [KaniArguments.testsFlag]),
+		...(await getTargetArgsFromFilePath(harnessUri)),
+		...(await getHarnessConfigArgs(harnessUri, harnessName)),
+		KaniArguments.harnessFlag,
+		harnessName,
+		'--output-format',
+		'old',
+		'--enable-unstable',
+		// Every argument after `--cbmc-args` is passed to CBMC, so it must come last
+		'--cbmc-args',
+		'--trace',
+		'--trace-show-function-calls',
+	];
+
+	const stdout = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `Generating counterexample trace for ${harnessName}`,
+		},
+		() => runTraceCommand(args, crateRoot),
+	);
+
+	const traces = parseKaniTraces(stdout);
+	if (traces.length === 0) {
+		vscode.window.showErrorMessage(`Kani did not report a counterexample trace for ${harnessName}`);
+		return;
+	}
+
+	// Every failed property has its own trace
+	let trace: KaniTrace | undefined = traces[0];
+	if (traces.length > 1) {
+		const propertyId = await vscode.window.showQuickPick(
+			traces.map((candidate) => candidate.propertyId),
+			{ placeHolder: 'Select the failed property to explore' },
+		);
+		trace = traces.find((candidate) => candidate.propertyId === propertyId);
+	}
+	if (trace !== undefined) {
+		TraceViewPanel.show(harnessName, trace, crateRoot);
+	}
+}
+
+// Run Kani and return its output. Kani exits with an error when the harness fails, which is
+// the case that has a trace, so the output is returned in every case.
+function runTraceCommand(args: string[], crateRoot: string): Promise<string> {
+	const kaniBinaryPath = GlobalConfig.getInstance().getFilePath();
+	return new Promise((resolve) => {
+		execFile(
+			kaniBinaryPath,
+			args,
+			{ shell: false, cwd: crateRoot, maxBuffer: 256 * 1024 * 1024 },
+			(error, stdout) => {
+				if (error && !stdout) {
+					console.error(`exec error: ${error}`);
+				}
+				resolve(stdout ?? '');
+			},
+		);
+	});
+}
+
+/**
+ * Webview that steps through a counterexample trace. The line of the current step is highlighted
+ * in the editor next to it, and the variables assigned so far are listed in the view.
+ */
+class TraceViewPanel {
+	// Only one trace is explored at a time, showing another trace reuses the panel
+	private static current: TraceViewPanel | undefined;
+	private readonly decoration: vscode.TextEditorDecorationType;
+	private readonly disposables: vscode.Disposable[] = [];
+
+	private constructor(
+		private readonly panel: vscode.WebviewPanel,
+		private trace: KaniTrace,
+		private crateRoot: string,
+	) {
+		this.decoration = vscode.window.createTextEditorDecorationType({
+			isWholeLine: true,
+			backgroundColor: new vscode.ThemeColor('editor.stackFrameHighlightBackground'),
+		});
+		this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+		this.panel.webview.onDidReceiveMessage(
+			(message: TraceViewMessage) => {
+				if (message.command === 'select') {
+					this.selectStep(message.index);
+				}
+			},
+			undefined,
+			this.disposables,
+		);
+	}
+
+	public static show(harnessName: string, trace: KaniTrace, crateRoot: string): void {
+		if (TraceViewPanel.current === undefined) {
+			const panel = vscode.window.createWebviewPanel(
+				'kaniTrace',
+				'',
+				{ viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+				{ enableScripts: true },
+			);
+			TraceViewPanel.current = new TraceViewPanel(panel, trace, crateRoot);
+		}
+		const current = TraceViewPanel.current;
+		current.trace = trace;
+		current.crateRoot = crateRoot;
+		current.panel.title = `Kani trace: ${harnessName}`;
+		current.panel.webview.html = createTraceHtml(trace);
+		current.panel.reveal(undefined, true);
+	}
+
+	// Highlight the source of a step and show the variables assigned up to it
+	private async selectStep(index: number): Promise<void> {
+		const step = this.trace.steps[index];
+		if (step === undefined) {
+			return;
+		}
+		const variables = [...getTraceVariables(this.trace.steps, index)].map(([name, value]) => ({
+			name,
+			value,
+			changed: name === step.variable,
+		}));
+		this.panel.webview.postMessage({ command: 'show', index, variables });
+
+		const location = getSourceLocation(step.location, this.crateRoot);
+		if (location === undefined) {
+			return;
+		}
+		const editor = await vscode.window.showTextDocument(location.uri, {
+			viewColumn: vscode.ViewColumn.One,
+			preserveFocus: true,
+			selection: location.range,
+		});
+		// Only the line of the current step is highlighted
+		for (const visibleEditor of vscode.window.visibleTextEditors) {
+			visibleEditor.setDecorations(this.decoration, []);
+		}
+		editor.setDecorations(this.decoration, [location.range]);
+	}
+
+	private dispose(): void {
+		TraceViewPanel.current = undefined;
+		this.decoration.dispose();
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
+
+// Create the page of the trace viewer. The steps are rendered by the script of the page, which
+// asks the extension for the variables of the selected step.
+function createTraceHtml(trace: KaniTrace): string {
+	const nonce = crypto.randomBytes(16).toString('hex');
+	const steps = trace.steps.map((step) => ({
+		kind: step.kind,
+		label: step.label,
+		depth: step.depth,
+		location: step.location ? `${step.location.file}:${step.location.line}` : '',
+	}));
+	// Keep the data from closing the script element
+	const data = JSON.stringify({ propertyId: trace.propertyId, steps }).replace(/</g, '\\u003c');
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+	body { display: flex; flex-direction: column; height: 100vh; margin: 0; padding: 0 8px; box-sizing: border-box; }
+	.toolbar { display: flex; gap: 4px; align-items: center; padding: 6px 0; }
+	.toolbar span { margin-left: 8px; }
+	button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 2px 8px; cursor: pointer; }
+	button:disabled { opacity: 0.5; cursor: default; }
+	.content { display: flex; flex: 1; gap: 12px; min-height: 0; }
+	.steps, .variables { overflow: auto; flex: 1; }
+	.step { padding: 1px 4px; cursor: pointer; white-space: pre; font-family: var(--vscode-editor-font-family); }
+	.step.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+	.step .location { opacity: 0.7; margin-left: 8px; }
+	.step.call, .step.return { color: var(--vscode-symbolIcon-functionForeground); }
+	.step.assumption { color: var(--vscode-editorWarning-foreground); }
+	.step.failure { color: var(--vscode-editorError-foreground); font-weight: bold; }
+	table { border-collapse: collapse; width: 100%; font-family: var(--vscode-editor-font-family); }
+	th, td { text-align: left; padding: 1px 6px; border-bottom: 1px solid var(--vscode-panel-border); }
+	tr.changed { background: var(--vscode-diffEditor-insertedTextBackground); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+	<button id="first" title="First step">&#x23EE;</button>
+	<button id="back" title="Step back (Left)">&#x25C0;</button>
+	<button id="forward" title="Step forward (Right)">&#x25B6;</button>
+	<button id="last" title="Failed property">&#x23ED;</button>
+	<span id="position"></span>
+</div>
+<div class="content">
+	<div class="steps" id="steps"></div>
+	<div class="variables">
+		<table><thead><tr><th>Variable</th><th>Value</th></tr></thead><tbody id="variables"></tbody></table>
+	</div>
+</div>
+<script nonce="${nonce}">
+	const vscode = acquireVsCodeApi();
+	const trace = ${data};
+	const stepElements = trace.steps.map((step, index) => {
+		const element = document.createElement('div');
+		element.className = 'step ' + step.kind;
+		element.textContent = '  '.repeat(step.depth) + step.label;
+		const location = document.createElement('span');
+		location.className = 'location';
+		location.textContent = step.location;
+		element.appendChild(location);
+		element.addEventListener('click', () => select(index));
+		document.getElementById('steps').appendChild(element);
+		return element;
+	});
+	// Keep the step of the trace when the page is restored, start at the first step of a new trace
+	const state = vscode.getState() || {};
+	let current = state.propertyId === trace.propertyId ? state.index : 0;
+
+	function select(index) {
+		if (index < 0 || index >= trace.steps.length) {
+			return;
+		}
+		vscode.postMessage({ command: 'select', index });
+	}
+
+	window.addEventListener('message', (event) => {
+		if (event.data.command !== 'show') {
+			return;
+		}
+		current = event.data.index;
+		vscode.setState({ propertyId: trace.propertyId, index: current });
+		stepElements.forEach((element, index) => element.classList.toggle('selected', index === current));
+		stepElements[current].scrollIntoView({ block: 'nearest' });
+		document.getElementById('position').textContent =
+			'Step ' + (current + 1) + ' of ' + trace.steps.length + ' (' + trace.propertyId + ')';
+		document.getElementById('first').disabled = current === 0;
+		document.getElementById('back').disabled = current === 0;
+		document.getElementById('forward').disabled = current === trace.steps.length - 1;
+		document.getElementById('last').disabled = current === trace.steps.length - 1;
+
+		const rows = document.getElementById('variables');
+		rows.replaceChildren(...event.data.variables.map((variable) => {
+			const row = document.createElement('tr');
+			row.className = variable.changed ? 'changed' : '';
+			for (const text of [variable.name, variable.value]) {
+				const cell = document.createElement('td');
+				cell.textContent = text;
+				row.appendChild(cell);
+			}
+			return row;
+		}));
+	});
+
+	document.getElementById('first').addEventListener('click', () => select(0));
+	document.getElementById('back').addEventListener('click', () => select(current - 1));
+	document.getElementById('forward').addEventListener('click', () => select(current + 1));
+	document.getElementById('last').addEventListener('click', () => select(trace.steps.length - 1));
+	window.addEventListener('keydown', (event) => {
+		if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') {
+			select(current - 1);
+			event.preventDefault();
+		} else if (event.key === 'ArrowRight' || event.key === 'ArrowDown') {
+			select(current + 1);
+			event.preventDefault();
+		}
+	});
+	select(current);
+</script>
+</body>
+</html>`;
+}
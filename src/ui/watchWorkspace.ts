@@ -5,6 +5,7 @@ import * as vscode from 'vscode';
 import {
 	findInitialFiles,
 	getOrCreateFile,
+	getWorkspaceRoot,
 	getWorkspaceTestPatterns,
 } from '../test-tree/createTests';
 
@@ -12,12 +13,12 @@ import {
  * Function to re-create test tree and new test cases upon triggering events
  *
  * @param controller - Test Controller that contains all test cases and files
- * @param rootItem - Root node of the test tree
+ * @param addToTree - Add the files found initially under the node of their workspace folder
  * @returns - file system watcher that is notified on file events
  */
 export function startWatchingWorkspace(
 	controller: vscode.TestController,
-	treeRoot?: vscode.TestItem,
+	addToTree: boolean = false,
 ): vscode.FileSystemWatcher[] {
 	const watcher = getWorkspaceTestPatterns().map(({ workspaceFolder, pattern }) => {
 		const watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(pattern);
@@ -29,9 +30,13 @@ export function startWatchingWorkspace(
 				data.updateFromDisk(controller, file);
 			}
 		});
-		watcher.onDidDelete((uri) => controller.items.delete(uri.toString()));
+		watcher.onDidDelete((uri) => {
+			controller.items.delete(uri.toString());
+			getWorkspaceRoot(controller, uri)?.children.delete(uri.toString());
+		});
 
-		findInitialFiles(controller, pattern, treeRoot);
+		const rootItem = addToTree ? getWorkspaceRoot(controller, workspaceFolder.uri) : undefined;
+		findInitialFiles(controller, pattern, rootItem);
 
 		return watcher;
 	});
@@ -1,12 +1,15 @@
 // Copyright Kani Contributors
 // SPDX-License-Identifier: Apache-2.0 OR MIT
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { TextDecoder } from 'util';
 
 import * as toml from 'toml';
 import * as vscode from 'vscode';
 
+import { getFileTarget, getTargetArgs } from './model/cargoMetadata';
+
 const textDecoder = new TextDecoder('utf-8');
 const linkToBugReportTemplate =
 	'https://github.com/model-checking/kani-vscode-extension/issues/new?assignees=&labels=bug&projects=&template=bug_report.md';
@@ -27,36 +30,62 @@ export const getContentFromFilesystem = async (uri: vscode.Uri): Promise<string>
 	}
 };
 
-// Convert path to URI
-export function getRootDirURI(): vscode.Uri {
-	let crateURI: vscode.Uri = vscode.Uri.parse('');
-	if (vscode.workspace.workspaceFolders !== undefined) {
-		crateURI = vscode.workspace.workspaceFolders[0].uri;
-		return crateURI;
+// Convert path to URI. The workspace folder that owns the file is used when a file is given.
+export function getRootDirURI(fileUri?: vscode.Uri): vscode.Uri {
+	const workspaceFolder = getWorkspaceFolder(fileUri);
+	if (workspaceFolder !== undefined) {
+		return workspaceFolder.uri;
 	}
 
-	return crateURI;
+	return vscode.Uri.parse('');
+}
+
+// Get the workspace of the current directory, or of the given file
+export function getRootDir(fileUri?: vscode.Uri): string {
+	return getRootDirURI(fileUri).fsPath;
+}
+
+// Get the workspace folder that owns the file, or the folder of the active editor if no file is
+// given. Falls back to the first workspace folder.
+export function getWorkspaceFolder(fileUri?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+	const uri = fileUri ?? vscode.window.activeTextEditor?.document.uri;
+	const owner = uri !== undefined ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+	return owner ?? vscode.workspace.workspaceFolders?.[0];
 }
 
-// Get the workspace of the current directory
-export function getRootDir(): string {
-	let crateURI: vscode.Uri = vscode.Uri.parse('');
-	if (vscode.workspace.workspaceFolders !== undefined) {
-		crateURI = vscode.workspace.workspaceFolders[0].uri;
-		return crateURI.fsPath;
+/**
+ * Get the directory cargo runs in for a file, which is the outermost directory containing a
+ * Cargo.toml between the file and its workspace folder, i.e the root of the cargo workspace
+ *
+ * @param fileUri - file in the crate, the active editor is used if no file is given
+ * @returns the crate root, or the workspace folder if no Cargo.toml was found
+ */
+export function getCrateRoot(fileUri?: vscode.Uri): string {
+	const uri = fileUri ?? vscode.window.activeTextEditor?.document.uri;
+	const workspaceRoot = getRootDir(uri);
+	if (uri === undefined) {
+		return workspaceRoot;
 	}
 
-	return crateURI.fsPath;
+	let crateRoot: string | undefined;
+	let directory = path.dirname(uri.fsPath);
+	while (!path.relative(workspaceRoot, directory).startsWith('..')) {
+		if (fs.existsSync(path.join(directory, 'Cargo.toml'))) {
+			crateRoot = directory;
+		}
+		if (directory === workspaceRoot || directory === path.dirname(directory)) {
+			break;
+		}
+		directory = path.dirname(directory);
+	}
+	return crateRoot ?? workspaceRoot;
 }
 
-// Check if the current crate has cargo.toml or not for switching between kani and cargo kani
+// Check if any of the workspace folders is a cargo package, since the extension needs one to run Kani
 export function checkCargoExist(): boolean {
-	const rootDir: string = getRootDir();
-	if (fs.existsSync(path.join(rootDir, 'Cargo.toml'))) {
-		return true;
-	} else {
-		return false;
-	}
+	return (vscode.workspace.workspaceFolders ?? []).some((workspaceFolder) =>
+		fs.existsSync(path.join(workspaceFolder.uri.fsPath, 'Cargo.toml')),
+	);
 }
 
 export function countOccurrences(largerString: string, substring: string): number {
@@ -139,18 +168,89 @@ export async function isLibraryProject(dirName: string): Promise<boolean> {
 	}
 }
 
+// Get the number of harnesses that can be verified at the same time from the user settings
+export function getMaxParallelHarnesses(): number {
+	const config = vscode.workspace.getConfiguration('Kani');
+	const maxParallelHarnesses: number = config.get('maxParallelHarnesses', 0);
+	if (maxParallelHarnesses > 0) {
+		return Math.floor(maxParallelHarnesses);
+	}
+
+	// Each harness runs its own solver, so leave some cores free for cargo and the editor
+	return Math.max(1, Math.floor(os.cpus().length / 2));
+}
+
+// Get the default time limit in seconds for verifying a harness. 0 means there is no limit.
+export function getHarnessTimeoutSeconds(): number {
+	const config = vscode.workspace.getConfiguration('Kani');
+	return Math.max(0, config.get('harnessTimeoutSeconds', 0));
+}
+
+/**
+ * Run an async task on every item with at most `limit` tasks in flight at the same time.
+ * Items are picked up in order as soon as a worker becomes free.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent tasks
+ * @param task - Async task to run on each item
+ */
+export async function runWithConcurrency<T>(
+	items: T[],
+	limit: number,
+	task: (item: T) => Promise<void>,
+): Promise<void> {
+	let nextIndex = 0;
+	const worker = async (): Promise<void> => {
+		while (nextIndex < items.length) {
+			const item = items[nextIndex++];
+			await task(item);
+		}
+	};
+
+	const workerCount = Math.max(1, Math.min(limit, items.length));
+	await Promise.all(Array.from({ length: workerCount }, worker));
+}
+
+// Remove the ANSI color codes from the output of a process
+export function stripAnsi(text: string): string {
+	// eslint-disable-next-line no-control-regex
+	return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
 // Create a timestamp to help differentiate strings
 export function getTimeBasedUniqueId(): string {
 	const timestamp = new Date().getTime().toString();
 	return timestamp;
 }
 
-// Given a filepath, get it's package name from the cargo.toml
+// Given a filepath, get it's package name from the cargo metadata, or from the closest cargo.toml
+// if the metadata is not available
 export async function getPackageNameFromFilePath(fileUri: vscode.Uri): Promise<string> {
-	const filePath = fileUri.fsPath;
+	const fileTarget = await getFileTarget(getCrateRoot(fileUri), fileUri.fsPath);
+	if (fileTarget !== undefined) {
+		return fileTarget.package.name;
+	}
 
-	const fs = require('fs');
-	let tomlsInFolder = '';
+	const tomlFilePath: string = getPackageRootFromFilePath(fileUri.fsPath);
+	const filePackage = await getPackageName(tomlFilePath);
+	return filePackage;
+}
+
+// Given a filepath, get the cargo arguments that select its target, i.e `--lib` or `--bin <name>`.
+// Falls back to the `[lib]` section of the closest cargo.toml if the cargo metadata is not available
+export async function getTargetArgsFromFilePath(fileUri: vscode.Uri): Promise<string[]> {
+	const fileTarget = await getFileTarget(getCrateRoot(fileUri), fileUri.fsPath);
+	if (fileTarget !== undefined) {
+		return getTargetArgs(fileTarget.target);
+	}
+
+	const isLib = await isLibraryProject(getPackageRootFromFilePath(fileUri.fsPath));
+	return isLib ? ['--lib'] : [];
+}
+
+// Given a filepath, get the directory of the closest cargo.toml above it
+export function getPackageRootFromFilePath(filePath: string): string {
+	let tomlsInFolder: string[] = [];
 	let tomlFilePath: string = filePath;
 
 	do {
@@ -158,10 +258,9 @@ export async function getPackageNameFromFilePath(fileUri: vscode.Uri): Promise<s
 		tomlsInFolder = fs
 			.readdirSync(tomlFilePath)
 			.filter((file: string) => path.extname(file) === '.toml');
-	} while (!tomlsInFolder.includes('Cargo.toml') && tomlFilePath.length > 0);
+	} while (!tomlsInFolder.includes('Cargo.toml') && tomlFilePath !== path.dirname(tomlFilePath));
 
-	const filePackage = await getPackageName(tomlFilePath);
-	return filePackage;
+	return tomlFilePath;
 }
 
 /* Split the command line invocation into the kani call and the argument array